@@ -1,11 +1,49 @@
-import React, { useState, useRef, useCallback, useEffect, useLayoutEffect } from 'react';
+import React, { useState, useRef, useCallback, useEffect, useLayoutEffect, useMemo } from 'react';
 import UPNG from 'upng-js';
 import {
   Upload, Trash2, Clock, Download, Sun, Moon,
-  Move, ZoomIn, RotateCcw, X, Play, Minus, Plus, RefreshCw, Wand2, FileVideo, FilePenLine, Github
+  Move, ZoomIn, RotateCcw, X, Play, Minus, Plus, RefreshCw, Wand2, FileVideo, FilePenLine, Github, ImageIcon, Save, FolderOpen, Undo2, Redo2, Layers, Crosshair, Film, Blend, LayoutGrid, FileJson, FileArchive, Gauge,
+  FlipHorizontal2, FlipVertical2, CropIcon, SlidersHorizontal, Eraser, Pipette
 } from 'lucide-react';
 import './App.css';
-import { assembleWebP } from './utils/webp-assembler';
+import { WebPMode } from './utils/webp-encoder';
+import { DitherMode, DITHER_MODES } from './utils/quantize';
+import { ApngOptions, APNG_COLOR_CHOICES, apngOptionsKey } from './utils/apng-palette';
+import { Overlay, drawOverlays } from './utils/overlays';
+import { BackgroundFill, BackgroundMode } from './utils/background';
+import { ChromaKey, DEFAULT_CHROMA_KEY } from './utils/chroma-key';
+import { BUDGET_FORMATS, budgetLevels, dropFrames, searchBudget, describeBudget } from './utils/size-budget';
+import { demuxWebP, isAnimatedWebP } from './utils/webp-demuxer';
+import { decodeGIF, isGIF } from './utils/gif-decoder';
+import { Frame } from './types';
+import type { Region } from './utils/frame-diff';
+import { FrameTransform, FrameAdjustments, FrameFilters, CanvasSettings, DEFAULT_FILTERS, defaultCanvas, drawAdjusted, filterCss } from './utils/render';
+import { fitTransform, FitMode, Anchor, FIT_MODES } from './utils/fit';
+import { ease } from './utils/keyframes';
+import { TransitionOptions, transitionLayers, drawTransition, transitionDelays, transitionSteps } from './utils/transitions';
+import { useHistory } from './hooks/useHistory';
+import { useOverlayImages } from './hooks/useOverlayImages';
+import { PreviewPlayer } from './components/PreviewPlayer';
+import { CanvasSettingsPanel } from './components/CanvasSettingsPanel';
+import { KenBurnsModal } from './components/KenBurnsModal';
+import { TransitionModal } from './components/TransitionModal';
+import { SequenceToolsPanel } from './components/SequenceToolsPanel';
+import { BulkEditPanel } from './components/BulkEditPanel';
+import { SpriteSheetImportModal, SlicedSprite } from './components/SpriteSheetImportModal';
+import { OverlayPanel } from './components/OverlayPanel';
+import { moveFramesNextTo } from './utils/sequence';
+import { registerFrame, FrameRegistration } from './utils/register';
+import { saveProject, openProject, PROJECT_EXTENSION } from './utils/project';
+import type { SpriteAtlas } from './utils/sprite-sheet';
+import type { EncodeRequest, EncodeSettings, EncoderMessage, OutputFormat, SequenceImageFormat } from './workers/encoder.worker';
+
+const hexToRgb = (hex: string): [number, number, number] => {
+  const n = parseInt(hex.replace('#', ''), 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+};
+
+// Auto Register only applies estimates whose normalized cross-correlation reaches this
+const REGISTER_MIN_CONFIDENCE = 0.5;
 
 const formatSize = (bytes: number) => {
   if (bytes === 0) return '0 B';
@@ -15,6 +53,18 @@ const formatSize = (bytes: number) => {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
 };
 
+// CSS equivalent of the frame's flip, crop and filters for the thumbnail <img>
+const adjustmentStyle = (frame: Frame): React.CSSProperties => {
+  const { crop, width, height } = frame;
+  return {
+    filter: filterCss(frame.filters),
+    transform: frame.flipX || frame.flipY ? `scale(${frame.flipX ? -1 : 1}, ${frame.flipY ? -1 : 1})` : undefined,
+    clipPath: crop
+      ? `inset(${(crop.y / height) * 100}% ${((width - crop.x - crop.width) / width) * 100}% ${((height - crop.y - crop.height) / height) * 100}% ${(crop.x / width) * 100}%)`
+      : undefined
+  };
+};
+
 // Helper function to detect if a PNG file is animated
 async function isAnimatedPNG(file: File): Promise<boolean> {
   const buffer = await file.arrayBuffer();
@@ -51,6 +101,39 @@ async function isAnimatedPNG(file: File): Promise<boolean> {
   return false;
 }
 
+// Helper function to turn decoded RGBA pixels into an editable PNG-backed frame
+async function createFrameFromImageData(imageData: ImageData, delay: number, name: string): Promise<Frame> {
+  const canvas = document.createElement('canvas');
+  canvas.width = imageData.width;
+  canvas.height = imageData.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+  ctx.putImageData(imageData, 0, 0);
+
+  const blob: Blob | null = await new Promise((resolve) => {
+    canvas.toBlob(resolve, 'image/png');
+  });
+
+  if (!blob) throw new Error(`Failed to create blob for ${name}`);
+
+  const frameFile = new File([blob], name, { type: 'image/png' });
+
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    file: frameFile,
+    previewUrl: URL.createObjectURL(blob),
+    delay,
+    width: imageData.width,
+    height: imageData.height,
+    offsetX: 0,
+    offsetY: 0,
+    scale: 1,
+    rotation: 0,
+    fileSize: blob.size,
+    fileType: 'PNG'
+  };
+}
+
 // Helper function to parse APNG file and extract frames
 async function parseAPNG(file: File): Promise<Frame[]> {
   const buffer = await file.arrayBuffer();
@@ -64,81 +147,88 @@ async function parseAPNG(file: File): Promise<Frame[]> {
   const frames: Frame[] = [];
 
   for (let i = 0; i < frameData.length; i++) {
-    // Convert RGBA data to canvas then to blob
-    const canvas = document.createElement('canvas');
-    canvas.width = decoded.width;
-    canvas.height = decoded.height;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) throw new Error('Could not get canvas context');
-
     const imageData = new ImageData(
       new Uint8ClampedArray(frameData[i]),
       decoded.width,
       decoded.height
     );
-    ctx.putImageData(imageData, 0, 0);
-
-    const blob: Blob | null = await new Promise((resolve) => {
-      canvas.toBlob(resolve, 'image/png');
-    });
+    frames.push(await createFrameFromImageData(imageData, decoded.frames[i]?.delay || 100, `frame_${i}.png`));
+  }
 
-    if (!blob) throw new Error(`Failed to create blob for frame ${i}`);
+  return frames;
+}
 
-    const frameFile = new File([blob], `frame_${i}.png`, { type: 'image/png' });
+// Helper function to parse animated WebP file and extract composited frames
+async function parseAnimatedWebP(file: File): Promise<Frame[]> {
+  const decoded = await demuxWebP(await file.arrayBuffer());
+  const frames: Frame[] = [];
 
-    frames.push({
-      id: Math.random().toString(36).substr(2, 9),
-      file: frameFile,
-      previewUrl: URL.createObjectURL(blob),
-      delay: decoded.frames[i]?.delay || 100,
-      width: decoded.width,
-      height: decoded.height,
-      offsetX: 0,
-      offsetY: 0,
-      scale: 1,
-      rotation: 0,
-      fileSize: blob.size,
-      fileType: 'PNG'
-    });
+  for (let i = 0; i < decoded.frames.length; i++) {
+    const { imageData, delay } = decoded.frames[i];
+    frames.push(await createFrameFromImageData(imageData, delay || 100, `frame_${i}.png`));
   }
 
   return frames;
 }
 
-interface Frame {
-  id: string;
-  file: File;
-  previewUrl: string;
-  delay: number;
-  width: number;
-  height: number;
-  offsetX: number;
-  offsetY: number;
-  scale: number;
-  rotation: number;
-  fileSize: number;
-  fileType: string;
+// Helper function to parse GIF file and extract composited frames
+async function parseGIF(file: File): Promise<Frame[]> {
+  const decoded = decodeGIF(await file.arrayBuffer());
+  const frames: Frame[] = [];
+
+  for (let i = 0; i < decoded.frames.length; i++) {
+    const { imageData, delay } = decoded.frames[i];
+    // Browsers play 0-10 ms GIF delays at 100 ms, match that
+    frames.push(await createFrameFromImageData(imageData, delay > 10 ? delay : 100, `frame_${i}.png`));
+  }
+
+  return frames;
 }
 
+type OnionLayer = 'base' | 'prev' | 'next';
+
 interface EditModalProps {
   frame: Frame;
-  baseWidth: number;
-  baseHeight: number;
-  onSave: (id: string, x: number, y: number, scale: number, rotation: number) => void;
+  onionFrames: Record<OnionLayer, Frame | null>; // Neighbours shown as onion skin
+  overlays: Overlay[];
+  frameIndex: number; // Decides which overlays are shown
+  canvasWidth: number;
+  canvasHeight: number;
+  onSave: (id: string, x: number, y: number, scale: number, rotation: number, scaleY: number | undefined, adjustments: FrameAdjustments) => void;
   onClose: () => void;
 }
 
-const EditModal: React.FC<EditModalProps> = ({ frame, baseWidth, baseHeight, onSave, onClose }) => {
+const EditModal: React.FC<EditModalProps> = ({ frame, onionFrames, overlays, frameIndex, canvasWidth, canvasHeight, onSave, onClose }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const wrapperRef = useRef<HTMLDivElement>(null);
   const [offset, setOffset] = useState({ x: frame.offsetX, y: frame.offsetY });
   const [scale, setScale] = useState(frame.scale || 1);
   const [rotation, setRotation] = useState(frame.rotation || 0);
+  // Vertical/horizontal ratio of a stretched frame, kept while zooming
+  const [stretch, setStretch] = useState(frame.scaleY !== undefined ? frame.scaleY / (frame.scale || 1) : 1);
   const [isDragging, setIsDragging] = useState(false);
   const [lastPos, setLastPos] = useState({ x: 0, y: 0 });
   const [imageBitmap, setImageBitmap] = useState<ImageBitmap | null>(null);
   const [canvasSize, setCanvasSize] = useState({ width: 800, height: 600 });
   const [viewScale, setViewScale] = useState(1);
+  const [onionBitmaps, setOnionBitmaps] = useState<Partial<Record<OnionLayer, ImageBitmap>>>({});
+  const [onionLayers, setOnionLayers] = useState<Record<OnionLayer, boolean>>({ base: true, prev: false, next: false });
+  const [onionOpacity, setOnionOpacity] = useState(0.5);
+  const [onionOver, setOnionOver] = useState(false);
+  const [onionDifference, setOnionDifference] = useState(false);
+  const [flipX, setFlipX] = useState(!!frame.flipX);
+  const [flipY, setFlipY] = useState(!!frame.flipY);
+  const [crop, setCrop] = useState<Region | undefined>(frame.crop);
+  const [cropMode, setCropMode] = useState(false); // Dragging draws the crop rectangle instead of panning
+  const [cropStart, setCropStart] = useState<{ x: number; y: number } | null>(null);
+  const [filters, setFilters] = useState<FrameFilters>(frame.filters ?? DEFAULT_FILTERS);
+  const [showFilters, setShowFilters] = useState(!!frame.filters);
+  const [keySettings, setKeySettings] = useState<ChromaKey>(frame.chromaKey ?? DEFAULT_CHROMA_KEY);
+  const [keyEnabled, setKeyEnabled] = useState(!!frame.chromaKey);
+  const [showKey, setShowKey] = useState(!!frame.chromaKey);
+  const [pickMode, setPickMode] = useState(false); // Clicking picks the key colour from the source image
+  const [showOverlays, setShowOverlays] = useState(true);
+  const overlayImages = useOverlayImages(overlays);
 
   useEffect(() => {
     document.body.classList.add('modal-open');
@@ -163,6 +253,29 @@ const EditModal: React.FC<EditModalProps> = ({ frame, baseWidth, baseHeight, onS
     createImageBitmap(frame.file).then(setImageBitmap);
   }, [frame.file]);
 
+  // Neighbour bitmaps are closed when the neighbours change or the editor closes; late decodes are dropped
+  useEffect(() => {
+    let cancelled = false;
+    const decoded: ImageBitmap[] = [];
+    (['base', 'prev', 'next'] as OnionLayer[]).forEach(layer => {
+      const source = onionFrames[layer];
+      if (!source) return;
+      createImageBitmap(source.file).then(bitmap => {
+        if (cancelled) {
+          bitmap.close();
+          return;
+        }
+        decoded.push(bitmap);
+        setOnionBitmaps(prev => ({ ...prev, [layer]: bitmap }));
+      });
+    });
+    return () => {
+      cancelled = true;
+      decoded.forEach(bitmap => bitmap.close());
+      setOnionBitmaps({});
+    };
+  }, [onionFrames]);
+
   useLayoutEffect(() => {
     if (!wrapperRef.current) return;
     const updateSize = () => {
@@ -170,13 +283,13 @@ const EditModal: React.FC<EditModalProps> = ({ frame, baseWidth, baseHeight, onS
       const { clientWidth, clientHeight } = wrapperRef.current;
       setCanvasSize({ width: clientWidth, height: clientHeight });
       const padding = 40;
-      const fitScale = Math.min((clientWidth - padding) / baseWidth, (clientHeight - padding) / baseHeight);
+      const fitScale = Math.min((clientWidth - padding) / canvasWidth, (clientHeight - padding) / canvasHeight);
       setViewScale(fitScale > 0 ? fitScale : 1);
     };
     updateSize();
     window.addEventListener('resize', updateSize);
     return () => window.removeEventListener('resize', updateSize);
-  }, [baseWidth, baseHeight]);
+  }, [canvasWidth, canvasHeight]);
 
   const draw = useCallback(() => {
     const canvas = canvasRef.current;
@@ -199,10 +312,10 @@ const EditModal: React.FC<EditModalProps> = ({ frame, baseWidth, baseHeight, onS
     ctx.imageSmoothingEnabled = true;
     ctx.imageSmoothingQuality = 'high';
 
-    const baseRectW = baseWidth * viewScale;
-    const baseRectH = baseHeight * viewScale;
-    const baseRectX = (cw - baseRectW) / 2;
-    const baseRectY = (ch - baseRectH) / 2;
+    const canvasRectW = canvasWidth * viewScale;
+    const canvasRectH = canvasHeight * viewScale;
+    const canvasRectX = (cw - canvasRectW) / 2;
+    const canvasRectY = (ch - canvasRectH) / 2;
 
     ctx.clearRect(0, 0, cw, ch);
 
@@ -214,43 +327,160 @@ const EditModal: React.FC<EditModalProps> = ({ frame, baseWidth, baseHeight, onS
       }
     }
 
-    ctx.save();
-    const cx = (cw / 2) + (offset.x * viewScale);
-    const cy = (ch / 2) + (offset.y * viewScale);
-    ctx.translate(cx, cy);
-    ctx.rotate((rotation * Math.PI) / 180);
-    ctx.scale(scale * viewScale, scale * viewScale);
-    ctx.drawImage(imageBitmap, -imageBitmap.width / 2, -imageBitmap.height / 2);
-    ctx.restore();
+    // Draws an image with a frame transform and adjustments, mapped from canvas pixels to view pixels
+    const drawTransformed = (
+      target: CanvasRenderingContext2D,
+      bitmap: ImageBitmap,
+      t: FrameTransform & FrameAdjustments
+    ) => {
+      target.save();
+      target.translate((cw / 2) + (t.offsetX * viewScale), (ch / 2) + (t.offsetY * viewScale));
+      target.rotate((t.rotation * Math.PI) / 180);
+      target.scale(t.scale * viewScale, (t.scaleY ?? t.scale) * viewScale);
+      drawAdjusted(target, bitmap, t);
+      target.restore();
+    };
+
+    // Onion skin: enabled neighbours with their saved transforms
+    const ghosts = (['base', 'prev', 'next'] as OnionLayer[])
+      .filter(layer => onionLayers[layer] && onionFrames[layer] && onionBitmaps[layer])
+      .filter((layer, i, list) => list.findIndex(l => onionFrames[l]!.id === onionFrames[layer]!.id) === i)
+      .map(layer => ({ bitmap: onionBitmaps[layer]!, transform: onionFrames[layer]! }));
+    const current = {
+      offsetX: offset.x, offsetY: offset.y, scale, scaleY: stretch !== 1 ? scale * stretch : undefined, rotation,
+      flipX, flipY, crop, filters, chromaKey: keyEnabled ? keySettings : undefined
+    };
+
+    if (onionDifference && ghosts.length > 0) {
+      // Difference blend on a separate layer: aligned pixels cancel out to black
+      const layer = document.createElement('canvas');
+      layer.width = canvas.width;
+      layer.height = canvas.height;
+      const lctx = layer.getContext('2d');
+      if (!lctx) return;
+      lctx.scale(dpr, dpr);
+      lctx.globalAlpha = onionOpacity;
+      ghosts.forEach(g => drawTransformed(lctx, g.bitmap, g.transform));
+      lctx.globalAlpha = 1;
+      lctx.globalCompositeOperation = 'difference';
+      drawTransformed(lctx, imageBitmap, current);
+      ctx.drawImage(layer, 0, 0, cw, ch);
+    } else {
+      const drawGhosts = () => {
+        ctx.save();
+        ctx.globalAlpha = onionOpacity;
+        ghosts.forEach(g => drawTransformed(ctx, g.bitmap, g.transform));
+        ctx.restore();
+      };
+      if (!onionOver) drawGhosts();
+      if (cropMode && crop) {
+        // The cropped-away part stays faintly visible while editing the crop
+        ctx.save();
+        ctx.globalAlpha = 0.3;
+        drawTransformed(ctx, imageBitmap, { ...current, crop: undefined });
+        ctx.restore();
+      }
+      drawTransformed(ctx, imageBitmap, current);
+      if (onionOver) drawGhosts();
+    }
+
+    if (cropMode && crop) {
+      ctx.save();
+      ctx.translate((cw / 2) + (offset.x * viewScale), (ch / 2) + (offset.y * viewScale));
+      ctx.rotate((rotation * Math.PI) / 180);
+      ctx.scale(scale * viewScale * (flipX ? -1 : 1), scale * stretch * viewScale * (flipY ? -1 : 1));
+      ctx.beginPath();
+      ctx.rect(crop.x - imageBitmap.width / 2, crop.y - imageBitmap.height / 2, crop.width, crop.height);
+      ctx.restore();
+      ctx.strokeStyle = '#fab005';
+      ctx.lineWidth = 2;
+      ctx.stroke();
+    }
+
+    if (showOverlays) {
+      ctx.save();
+      ctx.translate(canvasRectX, canvasRectY);
+      ctx.scale(viewScale, viewScale);
+      drawOverlays(ctx, overlays, frameIndex, canvasWidth, canvasHeight, overlayImages, viewScale * dpr);
+      ctx.restore();
+    }
 
     ctx.save();
     ctx.beginPath();
     ctx.rect(0, 0, cw, ch);
-    ctx.rect(baseRectX, baseRectY, baseRectW, baseRectH);
+    ctx.rect(canvasRectX, canvasRectY, canvasRectW, canvasRectH);
     ctx.fillStyle = 'rgba(0, 0, 0, 0.45)'; 
     ctx.fill('evenodd');
     ctx.restore();
 
     ctx.strokeStyle = '#4c6ef5';
     ctx.lineWidth = 2;
-    ctx.strokeRect(baseRectX, baseRectY, baseRectW, baseRectH);
+    ctx.strokeRect(canvasRectX, canvasRectY, canvasRectW, canvasRectH);
 
     ctx.strokeStyle = 'rgba(255, 255, 255, 0.1)';
     ctx.beginPath();
-    ctx.moveTo(cw / 2, baseRectY); ctx.lineTo(cw / 2, baseRectY + baseRectH);
-    ctx.moveTo(baseRectX, ch / 2); ctx.lineTo(baseRectX + baseRectW, ch / 2);
+    ctx.moveTo(cw / 2, canvasRectY); ctx.lineTo(cw / 2, canvasRectY + canvasRectH);
+    ctx.moveTo(canvasRectX, ch / 2); ctx.lineTo(canvasRectX + canvasRectW, ch / 2);
     ctx.stroke();
 
-  }, [imageBitmap, offset, scale, rotation, viewScale, baseWidth, baseHeight, canvasSize]);
+  }, [imageBitmap, offset, scale, stretch, rotation, flipX, flipY, crop, cropMode, filters, keySettings, keyEnabled, viewScale, canvasWidth, canvasHeight, canvasSize,
+      onionFrames, onionBitmaps, onionLayers, onionOpacity, onionOver, onionDifference, showOverlays, overlays, overlayImages, frameIndex]);
 
   useEffect(() => { draw(); }, [draw]);
 
+  // Maps a mouse position to source image pixels by undoing the transform and flip
+  const toImagePoint = (e: React.MouseEvent) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    const dx = e.clientX - rect.left - canvasSize.width / 2 - offset.x * viewScale;
+    const dy = e.clientY - rect.top - canvasSize.height / 2 - offset.y * viewScale;
+    const angle = (rotation * Math.PI) / 180;
+    const rx = dx * Math.cos(angle) + dy * Math.sin(angle);
+    const ry = -dx * Math.sin(angle) + dy * Math.cos(angle);
+    const w = imageBitmap?.width ?? frame.width;
+    const h = imageBitmap?.height ?? frame.height;
+    const x = (rx / (scale * viewScale)) * (flipX ? -1 : 1) + w / 2;
+    const y = (ry / (scale * stretch * viewScale)) * (flipY ? -1 : 1) + h / 2;
+    return { x: Math.round(Math.max(0, Math.min(w, x))), y: Math.round(Math.max(0, Math.min(h, y))) };
+  };
+
+  // Key colour from the untouched source pixel under the cursor
+  const pickKeyColor = (e: React.MouseEvent) => {
+    if (!imageBitmap) return;
+    const { x, y } = toImagePoint(e);
+    const sample = document.createElement('canvas');
+    sample.width = sample.height = 1;
+    const sctx = sample.getContext('2d');
+    if (!sctx) return;
+    sctx.drawImage(imageBitmap, -Math.min(x, imageBitmap.width - 1), -Math.min(y, imageBitmap.height - 1));
+    const [r, g, b] = sctx.getImageData(0, 0, 1, 1).data;
+    setKeySettings(prev => ({ ...prev, color: `#${[r, g, b].map(v => v.toString(16).padStart(2, '0')).join('')}` }));
+    setKeyEnabled(true);
+    setPickMode(false);
+  };
+
   const handleMouseDown = (e: React.MouseEvent) => {
+    if (pickMode) {
+      pickKeyColor(e);
+      return;
+    }
+    if (cropMode) {
+      setCropStart(toImagePoint(e));
+      return;
+    }
     setIsDragging(true);
     setLastPos({ x: e.clientX, y: e.clientY });
   };
 
   const handleMouseMove = (e: React.MouseEvent) => {
+    if (cropStart) {
+      const end = toImagePoint(e);
+      const x = Math.min(cropStart.x, end.x);
+      const y = Math.min(cropStart.y, end.y);
+      const width = Math.abs(end.x - cropStart.x);
+      const height = Math.abs(end.y - cropStart.y);
+      if (width > 0 && height > 0) setCrop({ x, y, width, height });
+      return;
+    }
     if (!isDragging) return;
     const dx = e.clientX - lastPos.x;
     const dy = e.clientY - lastPos.y;
@@ -258,9 +488,49 @@ const EditModal: React.FC<EditModalProps> = ({ frame, baseWidth, baseHeight, onS
     setLastPos({ x: e.clientX, y: e.clientY });
   };
 
-  const handleMouseUp = () => setIsDragging(false);
+  const handleMouseUp = () => {
+    setIsDragging(false);
+    setCropStart(null);
+  };
+
+  const handleReset = () => {
+    setOffset({ x: 0, y: 0 });
+    setScale(1);
+    setStretch(1);
+    setRotation(0);
+    setFlipX(false);
+    setFlipY(false);
+    setCrop(undefined);
+    setFilters(DEFAULT_FILTERS);
+    setKeyEnabled(false);
+  };
+
+  const handleSave = () => {
+    onSave(frame.id, offset.x, offset.y, scale, rotation, stretch !== 1 ? scale * stretch : undefined, {
+      flipX: flipX || undefined,
+      flipY: flipY || undefined,
+      crop,
+      filters: filterCss(filters) === 'none' ? undefined : filters,
+      chromaKey: keyEnabled ? keySettings : undefined
+    });
+  };
 
-  const handleReset = () => { setOffset({ x: 0, y: 0 }); setScale(1); setRotation(0); };
+  const filterSlider = (key: keyof FrameFilters, label: string, min: number, max: number, step: number, format: (v: number) => string) => (
+    <div className="slider-group">
+      <label>{label}</label>
+      <input
+        type="range"
+        min={min} max={max} step={step}
+        value={filters[key]}
+        onChange={(e) => setFilters(prev => ({ ...prev, [key]: parseFloat(e.target.value) }))}
+        onDoubleClick={() => setFilters(prev => ({ ...prev, [key]: DEFAULT_FILTERS[key] }))}
+        style={{flex: 1}}
+        title="Double-click to reset"
+      />
+      <span className="value-badge">{format(filters[key])}</span>
+    </div>
+  );
+  const percent = (v: number) => `${Math.round(v * 100)}%`;
 
   const adjustScale = (amount: number) => setScale(prev => Math.max(0.01, Math.min(20, parseFloat((prev + amount).toFixed(2)))));
   const adjustRotation = (amount: number) => setRotation(prev => prev + amount);
@@ -269,7 +539,7 @@ const EditModal: React.FC<EditModalProps> = ({ frame, baseWidth, baseHeight, onS
     <div className="modal-overlay" onClick={onClose}>
       <div className="modal-content" onClick={e => e.stopPropagation()}>
         <div className="modal-header">
-          <h3>Adjust Frame Position</h3>
+          <h3>Adjust Frame</h3>
           <button className="close-modal-btn" onClick={onClose}><X size={24} /></button>
         </div>
         
@@ -277,6 +547,7 @@ const EditModal: React.FC<EditModalProps> = ({ frame, baseWidth, baseHeight, onS
           <canvas 
             ref={canvasRef} 
             className="canvas-container"
+            style={cropMode || pickMode ? {cursor: 'crosshair'} : undefined}
             onMouseDown={handleMouseDown}
             onMouseMove={handleMouseMove}
             onMouseUp={handleMouseUp}
@@ -317,11 +588,153 @@ const EditModal: React.FC<EditModalProps> = ({ frame, baseWidth, baseHeight, onS
             </div>
           </div>
           
+          <div className="control-row">
+            <div className="slider-group">
+              <label>Flip</label>
+              <button className={`btn-icon-small ${flipX ? 'active' : ''}`} onClick={() => setFlipX(v => !v)} title="Flip horizontally">
+                <FlipHorizontal2 size={14} />
+              </button>
+              <button className={`btn-icon-small ${flipY ? 'active' : ''}`} onClick={() => setFlipY(v => !v)} title="Flip vertically">
+                <FlipVertical2 size={14} />
+              </button>
+              <div style={{width: '1rem'}}></div>
+              <button
+                className={`btn-icon-small ${cropMode ? 'active' : ''}`}
+                onClick={() => {
+                  setCropMode(v => !v);
+                  setPickMode(false);
+                }}
+                title={cropMode ? 'Finish cropping (drag to pan again)' : 'Crop: drag a rectangle over the image'}
+              >
+                <CropIcon size={14} />
+              </button>
+              <span className="value-badge" title="Crop rectangle in source pixels">
+                {crop ? `${crop.width}×${crop.height} @ ${crop.x},${crop.y}` : 'Full image'}
+              </span>
+              <button className="btn-icon-small" onClick={() => setCrop(undefined)} disabled={!crop} title="Remove the crop">
+                <X size={14} />
+              </button>
+              <div style={{flex: 1}}></div>
+              <button className={`btn-icon-small ${showFilters ? 'active' : ''}`} onClick={() => setShowFilters(v => !v)} title="Colour adjustments">
+                <SlidersHorizontal size={14} />
+              </button>
+              <button className={`btn-icon-small ${showKey ? 'active' : ''}`} onClick={() => setShowKey(v => !v)} title="Chroma key (make one colour transparent)">
+                <Eraser size={14} />
+              </button>
+            </div>
+          </div>
+
+          {showFilters && (
+            <>
+              <div className="control-row">
+                {filterSlider('brightness', 'Brightness', 0, 2, 0.01, percent)}
+                {filterSlider('contrast', 'Contrast', 0, 2, 0.01, percent)}
+                {filterSlider('saturation', 'Saturation', 0, 2, 0.01, percent)}
+              </div>
+              <div className="control-row">
+                {filterSlider('hue', 'Hue', -180, 180, 1, v => `${v}°`)}
+                {filterSlider('grayscale', 'Grayscale', 0, 1, 0.01, percent)}
+                {filterSlider('opacity', 'Opacity', 0, 1, 0.01, percent)}
+              </div>
+            </>
+          )}
+
+          {showKey && (
+            <div className="control-row">
+              <div className="slider-group">
+                <label style={{minWidth: 0, whiteSpace: 'nowrap'}} title="Turn the key colour transparent before encoding">
+                  <input type="checkbox" checked={keyEnabled} onChange={(e) => setKeyEnabled(e.target.checked)} /> Key
+                </label>
+                <input
+                  type="color"
+                  value={keySettings.color}
+                  onChange={(e) => {
+                    setKeySettings(prev => ({ ...prev, color: e.target.value }));
+                    setKeyEnabled(true);
+                  }}
+                  title="Key colour"
+                />
+                <button
+                  className={`btn-icon-small ${pickMode ? 'active' : ''}`}
+                  onClick={() => {
+                    setPickMode(v => !v);
+                    setCropMode(false);
+                  }}
+                  title="Pick the key colour from the image"
+                >
+                  <Pipette size={14} />
+                </button>
+              </div>
+              <div className="slider-group">
+                <label>Tolerance</label>
+                <input
+                  type="range"
+                  min="0" max="1" step="0.01"
+                  value={keySettings.tolerance}
+                  onChange={(e) => setKeySettings(prev => ({ ...prev, tolerance: parseFloat(e.target.value) }))}
+                  style={{flex: 1}}
+                  title="How different a colour may be from the key and still be removed"
+                />
+                <span className="value-badge">{percent(keySettings.tolerance)}</span>
+              </div>
+              <div className="slider-group">
+                <label>Feather</label>
+                <input
+                  type="range"
+                  min="0" max="0.5" step="0.01"
+                  value={keySettings.feather}
+                  onChange={(e) => setKeySettings(prev => ({ ...prev, feather: parseFloat(e.target.value) }))}
+                  style={{flex: 1}}
+                  title="Soft edge: colours just beyond the tolerance become partly transparent"
+                />
+                <span className="value-badge">{percent(keySettings.feather)}</span>
+              </div>
+            </div>
+          )}
+
+          <div className="control-row">
+            <div className="slider-group">
+              <Layers size={18} />
+              <label>Onion</label>
+              {(['base', 'prev', 'next'] as OnionLayer[]).map(layer => (
+                <label key={layer} style={{minWidth: 0, whiteSpace: 'nowrap', opacity: onionFrames[layer] ? 1 : 0.4}}>
+                  <input
+                    type="checkbox"
+                    checked={onionLayers[layer]}
+                    disabled={!onionFrames[layer]}
+                    onChange={(e) => setOnionLayers(prev => ({ ...prev, [layer]: e.target.checked }))}
+                  /> {layer === 'base' ? 'Base' : layer === 'prev' ? 'Previous' : 'Next'}
+                </label>
+              ))}
+              <input
+                type="range"
+                min="0.05" max="1" step="0.05"
+                value={onionOpacity}
+                onChange={(e) => setOnionOpacity(parseFloat(e.target.value))}
+                style={{flex: 1}}
+                title="Onion skin opacity"
+              />
+              <span className="value-badge">{Math.round(onionOpacity * 100)}%</span>
+            </div>
+
+            <div className="slider-group" style={{flex: 'none', minWidth: 0}}>
+              <label style={{minWidth: 0, whiteSpace: 'nowrap'}} title="Draw the onion skin on top of the edited frame">
+                <input type="checkbox" checked={onionOver} disabled={onionDifference} onChange={(e) => setOnionOver(e.target.checked)} /> Over
+              </label>
+              <label style={{minWidth: 0, whiteSpace: 'nowrap'}} title="Difference blend: aligned areas turn black">
+                <input type="checkbox" checked={onionDifference} onChange={(e) => setOnionDifference(e.target.checked)} /> Difference
+              </label>
+              <label style={{minWidth: 0, whiteSpace: 'nowrap'}} title="Show the text and image overlays on this frame">
+                <input type="checkbox" checked={showOverlays} onChange={(e) => setShowOverlays(e.target.checked)} /> Overlays
+              </label>
+            </div>
+          </div>
+
           <div className="button-group" style={{marginTop: '1rem'}}>
             <button className="btn btn-secondary" onClick={handleReset}>Reset All</button>
             <div style={{flex: 1}}></div>
             <button className="btn btn-secondary" onClick={onClose}>Cancel</button>
-            <button className="btn btn-primary" onClick={() => onSave(frame.id, offset.x, offset.y, scale, rotation)}>Save Changes</button>
+            <button className="btn btn-primary" onClick={handleSave}>Save Changes</button>
           </div>
         </div>
       </div>
@@ -330,24 +743,183 @@ const EditModal: React.FC<EditModalProps> = ({ frame, baseWidth, baseHeight, onS
 };
 
 function App() {
-  const [frames, setFrames] = useState<Frame[]>([]);
+  const {
+    present: frames, set: setFrames, undo, redo, checkpoint, reset: resetFrames, canUndo, canRedo
+  } = useHistory<Frame[]>([]);
   const [isDraggingFile, setIsDraggingFile] = useState(false);
   const [globalDelay, setGlobalDelay] = useState(100);
   const [generatedApng, setGeneratedApng] = useState<string | null>(null);
   const [generatedWebP, setGeneratedWebP] = useState<string | null>(null);
+  const [generatedGif, setGeneratedGif] = useState<string | null>(null);
+  const [generatedSprite, setGeneratedSprite] = useState<string | null>(null);
+  const [spriteAtlas, setSpriteAtlas] = useState<SpriteAtlas | null>(null); // JSON atlas of generatedSprite
+  const [generatedSequence, setGeneratedSequence] = useState<string | null>(null); // ZIP of numbered frames
   const [isGenerating, setIsGenerating] = useState(false);
+  const [progress, setProgress] = useState<{ stage: string; done: number; total: number } | null>(null);
+  const [generateError, setGenerateError] = useState<string | null>(null);
+  const cancelEncodeRef = useRef<(() => void) | null>(null);
   const [editingFrame, setEditingFrame] = useState<string | null>(null);
+  const [kenBurnsFrame, setKenBurnsFrame] = useState<string | null>(null);
+  const [transitionFrom, setTransitionFrom] = useState<string | null>(null); // Transition goes from this frame to the next
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+  const spriteInputRef = useRef<HTMLInputElement>(null);
+  const [spriteImport, setSpriteImport] = useState<{ image: File; atlas: File | null } | null>(null);
   const [draggedFrameId, setDraggedFrameId] = useState<string | null>(null);
   const [theme, setTheme] = useState<'light' | 'dark'>('light');
   
   // New States
   const [exportFileName, setExportFileName] = useState("animation");
   const [resultSize, setResultSize] = useState<string | null>(null);
-  const [apngCompression, setApngCompression] = useState(0);
+  const [apngColors, setApngColors] = useState(0); // 0 = lossless
+  const [apngDither, setApngDither] = useState<DitherMode>('floyd-steinberg');
+  const [apngGlobalPalette, setApngGlobalPalette] = useState(true);
+  const [apngEstimates, setApngEstimates] = useState<Record<string, number>>({}); // By apngOptionsKey
   const [webpQuality, setWebpQuality] = useState(0.9);
+  const [webpMode, setWebpMode] = useState<WebPMode>('lossy');
+  const [webpMinPsnr, setWebpMinPsnr] = useState(40);
+  const [gifColors, setGifColors] = useState(256);
+  const [gifDither, setGifDither] = useState(true);
+  const [spriteColumns, setSpriteColumns] = useState(0);
+  const [spritePadding, setSpritePadding] = useState(0);
+  const [sequenceFormat, setSequenceFormat] = useState<SequenceImageFormat>('png');
+  const [sequenceQuality, setSequenceQuality] = useState(0.9);
+  const [sizeBudget, setSizeBudget] = useState(0); // MB, 0 = no limit
+  const [loopCount, setLoopCount] = useState(0);
+  const [backgroundColor, setBackgroundColor] = useState("#ffffff");
+  const [backgroundTransparent, setBackgroundTransparent] = useState(true);
+  const [backgroundMode, setBackgroundMode] = useState<BackgroundMode>('transparent'); // Fill under every frame
+  const [fillColor, setFillColor] = useState("#ffffff"); // Separate from the container hint colour above
+  const [backgroundImage, setBackgroundImage] = useState<File | null>(null);
+  const [canvasOverride, setCanvasOverride] = useState<CanvasSettings | null>(null); // null = follow the base frame
+  const [overlays, setOverlays] = useState<Overlay[]>([]); // Bottom layer first
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [selectionAnchor, setSelectionAnchor] = useState<string | null>(null); // Last clicked frame, start of Shift ranges
+  const [fitMode, setFitMode] = useState<FitMode>('cover');
+  const [fitAnchor, setFitAnchor] = useState<Anchor>([0.5, 0.5]);
+  const [alignTarget, setAlignTarget] = useState<'all' | 'selected'>('all');
+  const [isRegistering, setIsRegistering] = useState(false);
+  const [registerConfidence, setRegisterConfidence] = useState<Record<string, number>>({});
+
+  // Output canvas: explicit settings, or the base frame's size until the user changes it
+  const canvas = useMemo(
+    () => canvasOverride ?? defaultCanvas(frames[0]?.width || 1, frames[0]?.height || 1),
+    [canvasOverride, frames]
+  );
+
+  // Per-frame fields the encoder worker needs
+  const encodeFrames = useMemo(
+    () => frames.map(({ file, delay, offsetX, offsetY, scale, scaleY, rotation, flipX, flipY, crop, filters, chromaKey }, index) => (
+      { file, delay, index, offsetX, offsetY, scale, scaleY, rotation, flipX, flipY, crop, filters, chromaKey }
+    )),
+    [frames]
+  );
+
+  const backgroundFill = useMemo(
+    (): BackgroundFill => ({ mode: backgroundMode, color: fillColor, image: backgroundImage }),
+    [backgroundMode, fillColor, backgroundImage]
+  );
+
+  const encodeSettings = useMemo((): EncodeSettings => ({
+    loopCount,
+    background: hexToRgb(backgroundColor),
+    backgroundTransparent,
+    fill: backgroundFill,
+    apng: { colors: apngColors, dither: apngDither, globalPalette: apngGlobalPalette },
+    webp: { mode: webpMode, quality: webpQuality, minPsnr: webpMinPsnr },
+    gifColors,
+    gifDither: gifDither ? 'floyd-steinberg' : 'none',
+    spriteColumns,
+    spritePadding,
+    sequenceFormat,
+    sequenceQuality,
+    fileName: exportFileName
+  }), [loopCount, backgroundColor, backgroundTransparent, backgroundFill, apngColors, apngDither, apngGlobalPalette, webpMode, webpQuality, webpMinPsnr,
+    gifColors, gifDither, spriteColumns, spritePadding, sequenceFormat, sequenceQuality, exportFileName]);
+
+  useEffect(() => setApngEstimates({}), [encodeFrames, canvas, overlays, backgroundFill]);
+
+  // Only what changes the APNG size; renaming the file or touching other formats' settings
+  // must not restart the estimate worker
+  const apngEstimateInput = useMemo(() => ({
+    frames: encodeFrames,
+    canvas,
+    overlays,
+    apng: { colors: apngColors, dither: apngDither, globalPalette: apngGlobalPalette },
+    fill: backgroundFill
+  }), [encodeFrames, canvas, overlays, apngColors, apngDither, apngGlobalPalette, backgroundFill]);
+  const encodeSettingsRef = useRef(encodeSettings);
+  encodeSettingsRef.current = encodeSettings;
+
+  // Estimated APNG sizes for every choice next to the current options, filled in by a background worker
+  useEffect(() => {
+    const { frames: estimateFrames, canvas: estimateCanvas, overlays: estimateOverlays, apng: current, fill } = apngEstimateInput;
+    if (!generatedApng || isGenerating || estimateFrames.length === 0) return;
+    const candidates: ApngOptions[] = [
+      ...APNG_COLOR_CHOICES.map(colors => ({ ...current, colors })),
+      ...(current.colors === 0 ? [] : [
+        ...DITHER_MODES.map(({ value }) => ({ ...current, dither: value })),
+        { ...current, globalPalette: !current.globalPalette }
+      ])
+    ];
+    const pending = candidates.filter((o, i) => {
+      const key = apngOptionsKey(o);
+      return !(key in apngEstimates) && candidates.findIndex(c => apngOptionsKey(c) === key) === i;
+    });
+    if (pending.length === 0) return;
+
+    const worker = new Worker(new URL('./workers/encoder.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<EncoderMessage>) => {
+      const msg = e.data;
+      if (msg.type === 'estimate') {
+        setApngEstimates(prev => ({ ...prev, ...Object.fromEntries(pending.map((o, i) => [apngOptionsKey(o), msg.sizes[i]])) }));
+      } else if (msg.type === 'error') {
+        console.error("Error estimating APNG sizes:", msg.message);
+      }
+      if (msg.type !== 'progress') worker.terminate();
+    };
+    const request: EncodeRequest = {
+      format: 'apng',
+      canvas: estimateCanvas,
+      frames: estimateFrames,
+      overlays: estimateOverlays,
+      settings: { ...encodeSettingsRef.current, apng: current, fill },
+      estimate: pending
+    };
+    worker.postMessage(request);
+    return () => worker.terminate();
+  }, [generatedApng, isGenerating, apngEstimateInput, apngEstimates]);
 
   useEffect(() => { document.documentElement.setAttribute('data-theme', theme); }, [theme]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y) for frame history; text fields keep their native undo
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || editingFrame || kenBurnsFrame || transitionFrom || spriteImport) return;
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'TEXTAREA' || (target.tagName === 'INPUT' && ['text', 'number'].includes((target as HTMLInputElement).type))) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [undo, redo, editingFrame, kenBurnsFrame, transitionFrom, spriteImport]);
+
+  // Esc clears the frame selection while no dialog is open
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape' || editingFrame || kenBurnsFrame || transitionFrom || spriteImport) return;
+      setSelectedIds(new Set());
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [editingFrame, kenBurnsFrame, transitionFrom, spriteImport]);
   const toggleTheme = () => setTheme(prev => prev === 'light' ? 'dark' : 'light');
 
   const handleFiles = useCallback(async (fileList: FileList | null) => {
@@ -370,6 +942,28 @@ function App() {
           continue; // Skip static image processing for this file
         }
 
+        // Animated WebP files carry the animation flag in their VP8X header
+        if (file.type === 'image/webp' || file.name.toLowerCase().endsWith('.webp')) {
+          if (await isAnimatedWebP(file)) {
+            console.log(`Processing animated WebP file: ${file.name}`);
+            const webpFrames = await parseAnimatedWebP(file);
+            console.log(`Extracted ${webpFrames.length} frames from WebP`);
+            newFramesData.push(...webpFrames);
+            continue;
+          }
+        }
+
+        // GIFs are decoded frame by frame (static GIFs simply yield a single frame)
+        if (file.type === 'image/gif' || file.name.toLowerCase().endsWith('.gif')) {
+          if (await isGIF(file)) {
+            console.log(`Processing GIF file: ${file.name}`);
+            const gifFrames = await parseGIF(file);
+            console.log(`Extracted ${gifFrames.length} frames from GIF`);
+            newFramesData.push(...gifFrames);
+            continue;
+          }
+        }
+
         // Process regular image files
         if (!file.type.startsWith('image/')) continue;
         const bmp = await createImageBitmap(file);
@@ -393,20 +987,7 @@ function App() {
       }
     }
 
-    setFrames(prev => {
-      const combined = [...prev, ...newFramesData];
-      // Ensure base frame (first frame) always has no transforms applied
-      if (combined.length > 0) {
-        combined[0] = {
-          ...combined[0],
-          scale: 1,
-          offsetX: 0,
-          offsetY: 0,
-          rotation: 0
-        };
-      }
-      return combined;
-    });
+    setFrames(prev => [...prev, ...newFramesData]);
 
     // Clear file input value to allow re-uploading the same files
     if (fileInputRef.current) {
@@ -415,71 +996,245 @@ function App() {
   }, [globalDelay]);
 
   const handleSmartAlign = () => {
-    if (frames.length < 2) return;
-    const baseW = frames[0].width;
-    const baseH = frames[0].height;
-
-    setFrames(prev => prev.map((frame, index) => {
-      if (index === 0) return frame; // Skip base
+    if (frames.length === 0) return;
 
-      // Smart Fit: "Cover" logic
-      // Scale image so it fills the base dimensions completely (no black bars)
-      const scaleX = baseW / frame.width;
-      const scaleY = baseH / frame.height;
-      const newScale = Math.max(scaleX, scaleY);
-      
-      return { ...frame, scale: parseFloat(newScale.toFixed(4)) };
+    setFrames(prev => prev.map(frame => {
+      if (alignTarget === 'selected' && !selectedIds.has(frame.id)) return frame;
+      return { ...frame, ...fitTransform(frame.width, frame.height, frame.rotation, canvas.width, canvas.height, fitMode, fitAnchor) };
     }));
   };
 
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+    setSelectionAnchor(id);
+  };
+
+  // Click selects one frame, Ctrl/Cmd-click toggles, Shift-click selects the range from the last clicked frame
+  const handleFrameClick = (e: React.MouseEvent, id: string) => {
+    if ((e.target as HTMLElement).closest('button, input, label, .frame-preview-container')) return;
+    const anchorIndex = frames.findIndex(f => f.id === selectionAnchor);
+    if (e.shiftKey && anchorIndex >= 0) {
+      const index = frames.findIndex(f => f.id === id);
+      const range = frames.slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1).map(f => f.id);
+      setSelectedIds(prev => new Set([...(e.ctrlKey || e.metaKey ? prev : []), ...range]));
+      return;
+    }
+    if (e.ctrlKey || e.metaKey) {
+      toggleSelected(id);
+      return;
+    }
+    setSelectedIds(new Set([id]));
+    setSelectionAnchor(id);
+  };
+
+  // Content-based alignment against the base frame; frames below the confidence threshold keep their transform
+  const handleAutoRegister = async () => {
+    if (frames.length < 2) return;
+    setIsRegistering(true);
+    try {
+      const base = await createImageBitmap(frames[0].file);
+      const results: Record<string, FrameRegistration> = {};
+      for (const frame of frames.slice(1)) {
+        const bitmap = await createImageBitmap(frame.file);
+        results[frame.id] = registerFrame(base, bitmap);
+        bitmap.close();
+        await new Promise(resolve => setTimeout(resolve)); // Keep the UI responsive between frames
+      }
+      base.close();
+
+      // Estimates are relative to the base image, so chain them onto the base frame's own transform
+      const b = frames[0];
+      const bRad = (b.rotation * Math.PI) / 180;
+      setFrames(prev => prev.map((frame, index) => {
+        const result = results[frame.id];
+        if (index === 0 || !result || result.confidence < REGISTER_MIN_CONFIDENCE) return frame;
+        const offsetX = b.offsetX + b.scale * (Math.cos(bRad) * result.offsetX - Math.sin(bRad) * result.offsetY);
+        const offsetY = b.offsetY + b.scale * (Math.sin(bRad) * result.offsetX + Math.cos(bRad) * result.offsetY);
+        return {
+          ...frame,
+          offsetX: parseFloat(offsetX.toFixed(2)),
+          offsetY: parseFloat(offsetY.toFixed(2)),
+          scale: parseFloat((b.scale * result.scale).toFixed(4)),
+          scaleY: undefined,
+          rotation: parseFloat((b.rotation + result.rotation).toFixed(2))
+        };
+      }));
+      setRegisterConfidence(Object.fromEntries(Object.entries(results).map(([id, r]) => [id, r.confidence])));
+    } catch (err) {
+      console.error("Error registering frames:", err);
+      alert(`Error registering frames: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setIsRegistering(false);
+    }
+  };
+
   const onDragOver = (e: React.DragEvent) => { e.preventDefault(); setIsDraggingFile(true); };
   const onDragLeave = (e: React.DragEvent) => { e.preventDefault(); setIsDraggingFile(false); };
-  const onDrop = (e: React.DragEvent) => { e.preventDefault(); setIsDraggingFile(false); handleFiles(e.dataTransfer.files); };
+  const onDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingFile(false);
+    // A dropped project bundle replaces the session instead of adding frames
+    const projectFile = Array.from(e.dataTransfer.files).find(f => f.name.toLowerCase().endsWith(`.${PROJECT_EXTENSION}`));
+    if (projectFile) handleOpenProject(projectFile);
+    // A sheet dropped together with its JSON atlas goes to the sprite sheet importer
+    else if (!openSpriteImport(e.dataTransfer.files, true)) handleFiles(e.dataTransfer.files);
+  };
+
+  // Opens the sprite sheet importer for the first image (and JSON atlas) in the list.
+  // With `requireAtlas`, plain image drops are left to the regular import.
+  const openSpriteImport = (fileList: FileList | null, requireAtlas = false) => {
+    const files = Array.from(fileList ?? []);
+    const image = files.find(f => f.type.startsWith('image/'));
+    const atlas = files.find(f => f.name.toLowerCase().endsWith('.json')) ?? null;
+    if (spriteInputRef.current) spriteInputRef.current.value = '';
+    if (!image || (requireAtlas && !atlas)) return false;
+    setSpriteImport({ image, atlas });
+    return true;
+  };
+
+  const importSprites = async (sprites: SlicedSprite[]) => {
+    const newFrames: Frame[] = [];
+    for (const sprite of sprites) {
+      newFrames.push(await createFrameFromImageData(sprite.imageData, sprite.delay, sprite.name));
+    }
+    setFrames(prev => [...prev, ...newFrames]);
+    setSpriteImport(null);
+  };
+
+  const handleSaveProject = async () => {
+    try {
+      const blob = await saveProject(frames, {
+        globalDelay,
+        exportFileName,
+        apngColors,
+        apngDither,
+        apngGlobalPalette,
+        webpQuality,
+        webpMode,
+        webpMinPsnr,
+        gifColors,
+        gifDither,
+        loopCount,
+        backgroundColor,
+        backgroundTransparent,
+        canvas: canvasOverride,
+        spriteColumns,
+        spritePadding,
+        sequenceFormat,
+        sequenceQuality,
+        sizeBudget,
+        backgroundMode,
+        fillColor
+      }, overlays, backgroundImage);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${exportFileName}.${PROJECT_EXTENSION}`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (err) {
+      console.error("Error saving project:", err);
+      alert(`Error saving project: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleOpenProject = async (file: File) => {
+    try {
+      const project = await openProject(file);
+      const settings = project.settings;
+      cancelEncodeRef.current?.();
+      resetFrames(project.frames);
+      setOverlays(project.overlays);
+      setBackgroundImage(project.backgroundImage);
+      setGlobalDelay(settings.globalDelay);
+      setExportFileName(settings.exportFileName);
+      setApngColors(settings.apngColors);
+      setApngDither(settings.apngDither);
+      setApngGlobalPalette(settings.apngGlobalPalette);
+      setWebpQuality(settings.webpQuality);
+      setWebpMode(settings.webpMode);
+      setWebpMinPsnr(settings.webpMinPsnr);
+      setGifColors(settings.gifColors);
+      setGifDither(settings.gifDither);
+      setLoopCount(settings.loopCount);
+      setBackgroundColor(settings.backgroundColor);
+      setBackgroundTransparent(settings.backgroundTransparent);
+      setBackgroundMode(settings.backgroundMode);
+      setFillColor(settings.fillColor);
+      setSpriteColumns(settings.spriteColumns);
+      setSpritePadding(settings.spritePadding);
+      setSequenceFormat(settings.sequenceFormat);
+      setSequenceQuality(settings.sequenceQuality);
+      setSizeBudget(settings.sizeBudget);
+      setGeneratedApng(null);
+      setGeneratedWebP(null);
+      setGeneratedGif(null);
+      setGeneratedSprite(null);
+      setGeneratedSequence(null);
+      setResultSize(null);
+      setGenerateError(null);
+      setRegisterConfidence({});
+      setSelectedIds(new Set());
+      setCanvasOverride(settings.canvas);
+      setEditingFrame(null);
+      setKenBurnsFrame(null);
+      setTransitionFrom(null);
+    } catch (err) {
+      console.error(`Error opening project ${file.name}:`, err);
+      alert(`Error opening ${file.name}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      if (projectInputRef.current) projectInputRef.current.value = '';
+    }
+  };
+
   const handleClearAll = () => { 
     setFrames([]); 
     setGeneratedApng(null); 
     setGeneratedWebP(null); 
+    setGeneratedGif(null);
+    setGeneratedSprite(null);
+    setGeneratedSequence(null);
     setResultSize(null);
+    setGenerateError(null);
+    setRegisterConfidence({});
+    setSelectedIds(new Set());
+    setSelectionAnchor(null);
+    setCanvasOverride(null);
+    setOverlays([]);
+    setBackgroundMode('transparent');
+    setFillColor("#ffffff");
+    setBackgroundImage(null);
     setExportFileName("animation");
+    cancelEncodeRef.current?.();
   };
 
-  const removeFrame = (id: string) => {
+  const removeFrames = (ids: Set<string>) => {
     setFrames(prev => {
-      const frame = prev.find(f => f.id === id);
-      if (frame) URL.revokeObjectURL(frame.previewUrl);
-      const newFrames = prev.filter(f => f.id !== id);
+      // The preview URL is kept alive: the frame can come back through undo
+      const newFrames = prev.filter(f => !ids.has(f.id));
 
       // If this was the last frame being removed, clear output like Clear All does
       if (newFrames.length === 0) {
         setGeneratedApng(null);
         setGeneratedWebP(null);
+        setGeneratedGif(null);
+        setGeneratedSprite(null);
+        setGeneratedSequence(null);
         setResultSize(null);
         setExportFileName("animation");
       }
 
-      // If we deleted a frame and now only have 1 frame left, reset that frame's scale to 1
-      // This ensures the new base frame is not stuck with Smart Align scale
-      if (newFrames.length === 1) {
-        newFrames[0] = { ...newFrames[0], scale: 1, offsetX: 0, offsetY: 0, rotation: 0 };
-      }
-
-      // Ensure base frame (first frame) always has no transforms applied
-      if (newFrames.length > 0) {
-        newFrames[0] = {
-          ...newFrames[0],
-          scale: 1,
-          offsetX: 0,
-          offsetY: 0,
-          rotation: 0
-        };
-      }
-
       return newFrames;
     });
   };
 
   const updateFrameDelay = (id: string, delay: number) => {
-    setFrames(prev => prev.map(f => f.id === id ? { ...f, delay: Math.max(0, delay) } : f));
+    setFrames(prev => prev.map(f => f.id === id ? { ...f, delay: Math.max(0, delay) } : f), `delay:${id}`);
   };
 
   const handleSortStart = (id: string) => setDraggedFrameId(id);
@@ -489,129 +1244,182 @@ function App() {
     const draggedIndex = frames.findIndex(f => f.id === draggedFrameId);
     const targetIndex = frames.findIndex(f => f.id === targetId);
     if (draggedIndex === -1 || targetIndex === -1) return;
+    // Dragging a selected frame carries the whole selection along
+    if (selectedIds.has(draggedFrameId) && selectedIds.size > 1) {
+      if (selectedIds.has(targetId)) return;
+      setFrames(moveFramesNextTo(frames, selectedIds, targetId, draggedIndex < targetIndex), 'sort');
+      return;
+    }
     const newFrames = [...frames];
     const [removed] = newFrames.splice(draggedIndex, 1);
     newFrames.splice(targetIndex, 0, removed);
-
-    // Ensure base frame (first frame) always has no transforms applied
-    if (newFrames.length > 0) {
-      newFrames[0] = {
-        ...newFrames[0],
-        scale: 1,
-        offsetX: 0,
-        offsetY: 0,
-        rotation: 0
-      };
-    }
-
-    setFrames(newFrames);
+    setFrames(newFrames, 'sort'); // A whole drag is one undo step
+  };
+  const handleSortEnd = () => {
+    setDraggedFrameId(null);
+    checkpoint();
   };
-  const handleSortEnd = () => setDraggedFrameId(null);
 
-  const saveFrameOffset = (id: string, x: number, y: number, scale: number, rotation: number) => {
-    setFrames(prev => prev.map(f => f.id === id ? { ...f, offsetX: x, offsetY: y, scale, rotation } : f));
+  const saveFrameOffset = (id: string, x: number, y: number, scale: number, rotation: number, scaleY: number | undefined, adjustments: FrameAdjustments) => {
+    setFrames(prev => prev.map(f => f.id === id ? { ...f, offsetX: x, offsetY: y, scale, scaleY, rotation, ...adjustments } : f));
     setEditingFrame(null);
   };
 
-  const generateAPNG = async () => {
-    if (frames.length === 0) return;
-    setIsGenerating(true);
-    setGeneratedWebP(null); // Clear previous WebP result
-    setResultSize(null);
+  // Replaces a frame with the generated Ken Burns sequence; every copy shares the source image
+  const insertKenBurns = (id: string, transforms: FrameTransform[], delay: number) => {
+    setFrames(prev => prev.flatMap(f => f.id !== id ? [f] : transforms.map(t => ({
+      ...f,
+      ...t,
+      id: Math.random().toString(36).substr(2, 9),
+      delay
+    }))));
+    setKenBurnsFrame(null);
+  };
+
+  // Renders the blended in-between images as regular canvas-sized frames after `fromId`
+  const insertTransition = async (fromId: string, options: TransitionOptions) => {
+    const index = frames.findIndex(f => f.id === fromId);
+    if (index < 0 || index >= frames.length - 1) return;
     try {
-      const imageBitmaps = await Promise.all(frames.map(f => createImageBitmap(f.file)));
-      const width = imageBitmaps[0].width;
-      const height = imageBitmaps[0].height;
-      const buffers = [];
-      const delays = frames.map(f => f.delay);
-      const canvas = document.createElement('canvas');
-      canvas.width = width; canvas.height = height;
-      const ctx = canvas.getContext('2d');
-      if (!ctx) throw new Error("Could not get canvas context");
-
-      for (let i = 0; i < frames.length; i++) {
-        const img = imageBitmaps[i];
-        const frame = frames[i];
-        const scale = frame.scale || 1;
-        const rotation = frame.rotation || 0;
-
-        ctx.clearRect(0, 0, width, height);
-        ctx.save();
-        const cx = (width / 2) + frame.offsetX;
-        const cy = (height / 2) + frame.offsetY;
-        ctx.translate(cx, cy);
-        ctx.rotate((rotation * Math.PI) / 180);
-        ctx.scale(scale, scale);
-        ctx.drawImage(img, -img.width / 2, -img.height / 2);
-        ctx.restore();
-        
-        const imageData = ctx.getImageData(0, 0, width, height);
-        buffers.push(imageData.data.buffer);
+      const from = frames[index];
+      const to = frames[index + 1];
+      const [a, b] = await Promise.all([createImageBitmap(from.file), createImageBitmap(to.file)]);
+      const layers = transitionLayers(a, from, b, to, canvas.width, canvas.height);
+      a.close();
+      b.close();
+
+      const target = new OffscreenCanvas(canvas.width, canvas.height);
+      const ctx = target.getContext('2d', { willReadFrequently: true });
+      if (!ctx) throw new Error('Could not get canvas context');
+      const delays = transitionDelays(options.duration, options.count);
+      const steps = transitionSteps(options.count);
+      const inserted: Frame[] = [];
+      for (let i = 0; i < steps.length; i++) {
+        drawTransition(ctx, layers, options.type, options.direction, ease(steps[i], options.easing));
+        const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+        inserted.push(await createFrameFromImageData(imageData, delays[i], `${options.type}_${i}.png`));
       }
-      const apngBuffer = UPNG.encode(buffers, width, height, apngCompression, delays);
-      const blob = new Blob([apngBuffer], { type: 'image/png' });
-      setResultSize(formatSize(blob.size));
-      const url = URL.createObjectURL(blob);
-      setGeneratedApng(url);
+
+      setFrames(prev => {
+        const at = prev.findIndex(f => f.id === fromId);
+        return at < 0 ? prev : [...prev.slice(0, at + 1), ...inserted, ...prev.slice(at + 1)];
+      });
+      setTransitionFrom(null);
     } catch (err) {
-      console.error("Error generating APNG:", err);
-      alert("Error generating APNG. Check console for details.");
-    } finally {
-      setIsGenerating(false);
+      console.error("Error generating transition:", err);
+      alert(`Error generating transition: ${err instanceof Error ? err.message : 'Unknown error'}`);
     }
   };
 
-  const generateWebP = async () => {
+  // Runs one encode job in a fresh worker; cancelling terminates it mid-frame
+  const runEncoder = (request: EncodeRequest, label?: string) => new Promise<{ blob: Blob; note?: string; atlas?: SpriteAtlas }>((resolve, reject) => {
+    const worker = new Worker(new URL('./workers/encoder.worker.ts', import.meta.url), { type: 'module' });
+    const finish = () => {
+      worker.terminate();
+      cancelEncodeRef.current = null;
+    };
+    cancelEncodeRef.current = () => {
+      finish();
+      reject(new DOMException('Encoding cancelled', 'AbortError'));
+    };
+    worker.onmessage = (e: MessageEvent<EncoderMessage>) => {
+      const msg = e.data;
+      if (msg.type === 'progress') {
+        setProgress({ stage: label ? `${label} · ${msg.stage}` : msg.stage, done: msg.done, total: msg.total });
+        return;
+      }
+      finish();
+      if (msg.type === 'done') resolve(msg);
+      else if (msg.type === 'error') reject(new Error(msg.message));
+    };
+    worker.onerror = (e) => {
+      finish();
+      reject(new Error(e.message || 'Encoder worker crashed'));
+    };
+    worker.postMessage(request);
+  });
+
+  // Re-encodes with lower quality, output scale and frame rate until the file fits the size budget
+  const fitSizeBudget = async (format: OutputFormat) => {
+    const levels = budgetLevels(format, encodeSettings);
+    const found = await searchBudget(levels, sizeBudget * 1024 * 1024, (level, step, attempt) => runEncoder({
+      format,
+      canvas: { ...canvas, scale: canvas.scale * step.scale },
+      frames: dropFrames(encodeFrames, step.keepEvery),
+      overlays,
+      settings: level.settings
+    }, `Attempt ${attempt}`));
+    const report = `fits ${sizeBudget} MB: ${describeBudget(levels, found, encodeFrames.length)}`;
+    return { ...found.result, note: found.result.note ? `${found.result.note} · ${report}` : report };
+  };
+
+  const generate = async (format: OutputFormat) => {
     if (frames.length === 0) return;
     setIsGenerating(true);
-    setGeneratedApng(null); // Clear previous APNG result
-    setResultSize(null);
+    setGenerateError(null);
+    setProgress({ stage: 'Starting', done: 0, total: frames.length });
     try {
-      const imageBitmaps = await Promise.all(frames.map(f => createImageBitmap(f.file)));
-      const width = imageBitmaps[0].width;
-      const height = imageBitmaps[0].height;
-      const webpFrames: { image: Blob; duration: number }[] = [];
-      
-      const canvas = document.createElement('canvas');
-      canvas.width = width; canvas.height = height;
-      const ctx = canvas.getContext('2d');
-      if (!ctx) throw new Error("Could not get canvas context");
-
-      for (let i = 0; i < frames.length; i++) {
-        const img = imageBitmaps[i];
-        const frame = frames[i];
-        const scale = frame.scale || 1;
-        const rotation = frame.rotation || 0;
-
-        ctx.clearRect(0, 0, width, height);
-        ctx.save();
-        const cx = (width / 2) + frame.offsetX;
-        const cy = (height / 2) + frame.offsetY;
-        ctx.translate(cx, cy);
-        ctx.rotate((rotation * Math.PI) / 180);
-        ctx.scale(scale, scale);
-        ctx.drawImage(img, -img.width / 2, -img.height / 2);
-        ctx.restore();
-        
-        // Export frame as WebP Blob
-        const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/webp', webpQuality));
-        if (blob) {
-            webpFrames.push({ image: blob, duration: frame.delay });
-        }
-      }
-      
-      const finalBlob = await assembleWebP(webpFrames, width, height);
-      setResultSize(formatSize(finalBlob.size));
-      const url = URL.createObjectURL(finalBlob);
-      setGeneratedWebP(url);
+      const { blob, note, atlas } = sizeBudget > 0 && BUDGET_FORMATS.includes(format)
+        ? await fitSizeBudget(format)
+        : await runEncoder({
+          format,
+          canvas,
+          frames: encodeFrames,
+          overlays,
+          settings: encodeSettings
+        });
+      const url = URL.createObjectURL(blob);
+      setGeneratedApng(format === 'apng' ? url : null);
+      setGeneratedWebP(format === 'webp' ? url : null);
+      setGeneratedGif(format === 'gif' ? url : null);
+      setGeneratedSprite(format === 'spritesheet' ? url : null);
+      setGeneratedSequence(format === 'sequence' ? url : null);
+      setSpriteAtlas(atlas ?? null);
+      setResultSize(note ? `${formatSize(blob.size)} · ${note}` : formatSize(blob.size));
     } catch (err) {
-      console.error("Error generating WebP:", err);
-      alert("Error generating WebP. Check console.");
+      if (err instanceof DOMException && err.name === 'AbortError') return;
+      console.error(`Error generating ${format.toUpperCase()}:`, err);
+      setGenerateError(err instanceof Error ? err.message : String(err));
     } finally {
       setIsGenerating(false);
+      setProgress(null);
     }
   };
 
+  const cancelGenerate = () => cancelEncodeRef.current?.();
+
+  // " · ~1.2 MB" once the background estimate for these options is in
+  const apngEstimate = (options: ApngOptions) => {
+    const size = apngEstimates[apngOptionsKey(options)];
+    return size === undefined ? '' : ` · ~${formatSize(size)}`;
+  };
+
+  const editingIndex = frames.findIndex(f => f.id === editingFrame);
+  const kenBurnsIndex = frames.findIndex(f => f.id === kenBurnsFrame);
+  const transitionIndex = frames.findIndex(f => f.id === transitionFrom);
+  // Memoized so the modal only reloads neighbour bitmaps when the neighbours change
+  const onionFrames = useMemo(() => ({
+    base: editingIndex > 0 ? frames[0] : null,
+    prev: editingIndex > 0 ? frames[editingIndex - 1] : null,
+    next: editingIndex >= 0 && editingIndex < frames.length - 1 ? frames[editingIndex + 1] : null
+  }), [frames, editingIndex]);
+
+  const resultUrl = generatedApng || generatedWebP || generatedGif || generatedSprite || generatedSequence;
+  const resultFormat = generatedApng ? 'APNG' : generatedWebP ? 'WebP' : generatedGif ? 'GIF' : generatedSprite ? 'Sprite Sheet' : 'Image Sequence';
+  const resultExtension = generatedApng || generatedSprite ? 'png' : generatedWebP ? 'webp' : generatedGif ? 'gif' : 'zip';
+
+  // The atlas names the sheet it belongs to, so it is written with the current export name
+  const downloadAtlas = () => {
+    if (!spriteAtlas) return;
+    const atlas = { ...spriteAtlas, meta: { ...spriteAtlas.meta, image: `${exportFileName}.png` } };
+    const url = URL.createObjectURL(new Blob([JSON.stringify(atlas, null, 2)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${exportFileName}.json`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
   return (
     <div className="container">
       <header className="header">
@@ -619,7 +1427,7 @@ function App() {
           <h1>Animated Image Creator</h1>
           <p className="header-subtitle">
             Professional client-side tool to convert static images and APNG files
-            into high-quality animations. Supports PNG, JPG, WebP, and APNG import.
+            into high-quality animations. Supports PNG, JPG, WebP, GIF, APNG and animated WebP import.
           </p>
         </div>
         <div className="header-actions">
@@ -632,6 +1440,27 @@ function App() {
           >
             <Github size={20} />
           </a>
+          <button className="theme-toggle" onClick={() => projectInputRef.current?.click()} title={`Open Project (.${PROJECT_EXTENSION})`}>
+            <FolderOpen size={20} />
+          </button>
+          <input
+            type="file"
+            ref={projectInputRef}
+            className="file-input"
+            accept={`.${PROJECT_EXTENSION}`}
+            onChange={(e) => e.target.files?.[0] && handleOpenProject(e.target.files[0])}
+          />
+          <button className="theme-toggle" onClick={() => spriteInputRef.current?.click()} title="Import Sprite Sheet (image, optionally with its JSON atlas)">
+            <LayoutGrid size={20} />
+          </button>
+          <input
+            type="file"
+            ref={spriteInputRef}
+            className="file-input"
+            multiple
+            accept="image/*,.json,application/json"
+            onChange={(e) => openSpriteImport(e.target.files)}
+          />
           <button className="theme-toggle" onClick={toggleTheme} title="Toggle Theme">
             {theme === 'light' ? <Moon size={20} /> : <Sun size={20} />}
           </button>
@@ -646,9 +1475,9 @@ function App() {
         <Upload size={48} strokeWidth={1.5} className="dropzone-icon" />
         <div>
           <h3 style={{margin: '0 0 0.5rem 0', color: 'var(--text-primary)'}}>Drag & drop images here</h3>
-          <p style={{margin: 0, fontSize: '0.9rem'}}>Supports PNG, JPG, WebP, APNG • or click to browse files</p>
+          <p style={{margin: 0, fontSize: '0.9rem'}}>Supports PNG, JPG, WebP, GIF, APNG, animated WebP • or click to browse files</p>
         </div>
-        <input type="file" ref={fileInputRef} className="file-input" multiple accept="image/*,.apng,.webp" onChange={(e) => handleFiles(e.target.files)} />
+        <input type="file" ref={fileInputRef} className="file-input" multiple accept="image/*,.apng,.webp,.gif" onChange={(e) => handleFiles(e.target.files)} />
       </div>
 
       {frames.length > 0 && (
@@ -665,36 +1494,146 @@ function App() {
                 onChange={(e) => {
                   const val = parseInt(e.target.value) || 0;
                   setGlobalDelay(val);
-                  setFrames(prev => prev.map(f => ({ ...f, delay: val })));
-                }} 
+                  setFrames(prev => prev.map(f => ({ ...f, delay: val })), 'global-delay');
+                }}
+                onBlur={checkpoint}
               />
             </div>
             
             <div style={{display: 'flex', gap: '1rem'}}>
+              <div style={{display: 'flex', gap: '0.5rem'}}>
+                <button className="btn btn-secondary" onClick={undo} disabled={!canUndo} title="Undo (Ctrl+Z)">
+                  <Undo2 size={18} />
+                </button>
+                <button className="btn btn-secondary" onClick={redo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)">
+                  <Redo2 size={18} />
+                </button>
+              </div>
+
               <button className="btn btn-danger" onClick={handleClearAll}>
                 <Trash2 size={18} /> Clear All
               </button>
 
-              <button className="btn btn-secondary" onClick={handleSmartAlign} title="Auto fit larger images to base frame">
-                <Wand2 size={18} /> Smart Align
+              <div className="control-group" style={{gap: '0.5rem'}}>
+                <select
+                  value={fitMode}
+                  onChange={(e) => setFitMode(e.target.value as FitMode)}
+                  className="frame-delay-input"
+                  style={{width: 'auto'}}
+                  title="Fit mode"
+                >
+                  {FIT_MODES.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+                </select>
+                <div className="anchor-picker" title="Anchor">
+                  {[0, 0.5, 1].map(y => [0, 0.5, 1].map(x => (
+                    <button
+                      key={`${x}-${y}`}
+                      className={fitAnchor[0] === x && fitAnchor[1] === y ? 'active' : ''}
+                      onClick={() => setFitAnchor([x, y])}
+                    />
+                  )))}
+                </div>
+                <select
+                  value={alignTarget}
+                  onChange={(e) => setAlignTarget(e.target.value as 'all' | 'selected')}
+                  className="frame-delay-input"
+                  style={{width: 'auto'}}
+                  title="Frames to align"
+                >
+                  <option value="all">All frames</option>
+                  <option value="selected" disabled={selectedIds.size === 0}>Selected ({frames.filter(f => selectedIds.has(f.id)).length})</option>
+                </select>
+                <button className="btn btn-secondary" onClick={handleSmartAlign} title="Fit frames to the output canvas with the chosen mode and anchor">
+                  <Wand2 size={18} /> Smart Align
+                </button>
+              </div>
+
+              <button className="btn btn-secondary" onClick={handleAutoRegister} disabled={isRegistering || frames.length < 2} title="Estimate shift, scale and rotation of each frame from its content">
+                {isRegistering ? <span className="loading-spinner" style={{width: '18px', height: '18px'}}></span> : <Crosshair size={18} />} Auto Register
+              </button>
+
+              <button className="btn btn-secondary" onClick={handleSaveProject} title={`Save frames and settings as .${PROJECT_EXTENSION}`}>
+                <Save size={18} /> Save Project
               </button>
 
+              <div className="control-group" style={{gap: '0.5rem'}} title="APNG, WebP and GIF exports lower quality, scale and frame rate until the file fits (0 = no limit)">
+                <Gauge size={18} />
+                <label>Fit under</label>
+                <input
+                  type="number"
+                  className="frame-delay-input"
+                  style={{width: '60px'}}
+                  min="0"
+                  step="0.5"
+                  value={sizeBudget}
+                  onChange={(e) => setSizeBudget(Math.max(0, parseFloat(e.target.value) || 0))}
+                />
+                <label>MB</label>
+              </div>
+
               <div style={{display: 'flex', gap: '0.5rem'}}>
-                <button className="btn btn-primary" onClick={generateAPNG} disabled={isGenerating} title="Generate APNG File">
+                <button className="btn btn-primary" onClick={() => generate('apng')} disabled={isGenerating} title="Generate APNG File">
                   {isGenerating ? <span className="loading-spinner" style={{width: '18px', height: '18px'}}></span> : <><Play size={18} fill="currentColor" /> APNG</>}
                 </button>
-                <button className="btn btn-primary" onClick={generateWebP} disabled={isGenerating} title="Generate WebP File">
+                <button className="btn btn-primary" onClick={() => generate('webp')} disabled={isGenerating} title="Generate WebP File">
                   {isGenerating ? <span className="loading-spinner" style={{width: '18px', height: '18px'}}></span> : <><FileVideo size={18} /> WebP</>}
                 </button>
+                <button className="btn btn-primary" onClick={() => generate('gif')} disabled={isGenerating} title="Generate GIF File">
+                  {isGenerating ? <span className="loading-spinner" style={{width: '18px', height: '18px'}}></span> : <><ImageIcon size={18} /> GIF</>}
+                </button>
+                <button className="btn btn-primary" onClick={() => generate('spritesheet')} disabled={isGenerating} title="Generate Sprite Sheet PNG + JSON atlas">
+                  {isGenerating ? <span className="loading-spinner" style={{width: '18px', height: '18px'}}></span> : <><LayoutGrid size={18} /> Sheet</>}
+                </button>
+                <button className="btn btn-primary" onClick={() => generate('sequence')} disabled={isGenerating} title="Generate a ZIP of numbered frame images">
+                  {isGenerating ? <span className="loading-spinner" style={{width: '18px', height: '18px'}}></span> : <><FileArchive size={18} /> ZIP</>}
+                </button>
               </div>
             </div>
           </div>
 
+          <CanvasSettingsPanel
+            canvas={canvas}
+            followsBase={canvasOverride === null}
+            baseWidth={frames[0].width}
+            baseHeight={frames[0].height}
+            onChange={setCanvasOverride}
+            background={backgroundFill}
+            onBackgroundChange={({ mode, color, image }) => {
+              if (mode !== undefined) setBackgroundMode(mode);
+              if (color !== undefined) setFillColor(color);
+              if (image !== undefined) setBackgroundImage(image);
+            }}
+          />
+
+          <SequenceToolsPanel
+            frames={frames}
+            selectedIds={selectedIds}
+            canvas={canvas}
+            onChange={(next) => setFrames(next)}
+          />
+
+          <BulkEditPanel
+            frames={frames}
+            selectedIds={selectedIds}
+            focusId={selectionAnchor}
+            onChange={(next) => setFrames(next)}
+            onDelete={() => {
+              removeFrames(selectedIds);
+              setSelectedIds(new Set());
+            }}
+            onClearSelection={() => setSelectedIds(new Set())}
+          />
+
+          <OverlayPanel overlays={overlays} frameCount={frames.length} onChange={setOverlays} />
+
+          <PreviewPlayer frames={frames} canvas={canvas} overlays={overlays} background={backgroundFill} />
+
           <div className="frame-list">
             {frames.map((frame, index) => (
               <div
                 key={frame.id}
-                className={`frame-item ${index === 0 ? 'base-frame' : ''} ${draggedFrameId === frame.id ? 'dragging' : ''}`}
+                className={`frame-item ${index === 0 ? 'base-frame' : ''} ${draggedFrameId === frame.id ? 'dragging' : ''} ${selectedIds.has(frame.id) ? 'selected' : ''}`}
+                onClick={(e) => handleFrameClick(e, frame.id)}
                 draggable
                 onDragStart={() => handleSortStart(frame.id)}
                 onDragOver={(e) => handleSortOver(e, frame.id)}
@@ -702,25 +1641,34 @@ function App() {
                 style={{ animationDelay: `${Math.min(index * 0.05, 0.5)}s` }}
               >
                 {index === 0 && <span className="base-badge">Base</span>}
-                <button className="remove-frame-btn" onClick={() => removeFrame(frame.id)} title="Remove Frame">
+                <button className="frame-action-btn" onClick={() => setKenBurnsFrame(frame.id)} title="Ken Burns: generate a pan/zoom sequence from this image">
+                  <Film size={14} />
+                </button>
+                {index < frames.length - 1 && (
+                  <button className="transition-insert-btn" onClick={() => setTransitionFrom(frame.id)} title="Insert a transition to the next frame">
+                    <Blend size={14} />
+                  </button>
+                )}
+                <button className="remove-frame-btn" onClick={() => removeFrames(new Set([frame.id]))} title="Remove Frame">
                   <X size={14} />
                 </button>
                 
                 <div 
                   className="frame-preview-container" 
-                  onClick={() => index !== 0 && setEditingFrame(frame.id)}
-                  title={index === 0 ? "Base frame defines canvas size" : "Click to adjust position"}
+                  onClick={() => setEditingFrame(frame.id)}
+                  title={index === 0 ? "Base frame: default canvas size and Auto Register reference. Click to adjust position" : "Click to adjust position"}
                 >
-                  <img src={frame.previewUrl} className="frame-preview" alt={`Frame ${index + 1}`} />
-                  {index !== 0 && (
-                    <div className="edit-overlay">
-                      <Move size={24} />
-                    </div>
-                  )}
+                  <img src={frame.previewUrl} className="frame-preview" style={adjustmentStyle(frame)} alt={`Frame ${index + 1}`} />
+                  <div className="edit-overlay">
+                    <Move size={24} />
+                  </div>
                 </div>
 
                 <div className="frame-meta">
-                  <span className="frame-index">#{index + 1}</span>
+                  <label className="frame-index" style={{display: 'flex', alignItems: 'center', gap: '0.3rem', cursor: 'pointer'}}>
+                    <input type="checkbox" checked={selectedIds.has(frame.id)} onChange={() => toggleSelected(frame.id)} title="Select frame" />
+                    #{index + 1}
+                  </label>
                   <div className="control-group" style={{gap: '0.4rem'}}>
                     <Clock size={14} color="var(--text-secondary)" />
                     <input 
@@ -728,6 +1676,7 @@ function App() {
                       className="frame-delay-input"
                       value={frame.delay} 
                       onChange={(e) => updateFrameDelay(frame.id, parseInt(e.target.value) || 0)}
+                      onBlur={checkpoint}
                       title="Frame Delay (ms)"
                     />
                   </div>
@@ -736,115 +1685,362 @@ function App() {
                   <span>{frame.width}·{frame.height}</span>
                   <span>{frame.fileType}&nbsp;{formatSize(frame.fileSize)}</span>
                 </div>
+                {registerConfidence[frame.id] !== undefined && (
+                  <div
+                    className="frame-details"
+                    style={{color: registerConfidence[frame.id] >= REGISTER_MIN_CONFIDENCE ? 'var(--text-secondary)' : 'var(--danger-color)'}}
+                    title={registerConfidence[frame.id] >= REGISTER_MIN_CONFIDENCE ? 'Auto Register applied' : 'Confidence too low, transform left unchanged'}
+                  >
+                    <span>Match</span>
+                    <span>{Math.round(registerConfidence[frame.id] * 100)}%{registerConfidence[frame.id] < REGISTER_MIN_CONFIDENCE && ' · skipped'}</span>
+                  </div>
+                )}
               </div>
             ))}
           </div>
         </>
       )}
 
-      {editingFrame && (
-        <EditModal frame={frames.find(f => f.id === editingFrame)!} baseWidth={frames[0].width} baseHeight={frames[0].height} onSave={saveFrameOffset} onClose={() => setEditingFrame(null)} />
+      {editingIndex >= 0 && (
+        <EditModal
+          frame={frames[editingIndex]}
+          onionFrames={onionFrames}
+          overlays={overlays}
+          frameIndex={editingIndex}
+          canvasWidth={canvas.width}
+          canvasHeight={canvas.height}
+          onSave={saveFrameOffset}
+          onClose={() => setEditingFrame(null)}
+        />
+      )}
+
+      {kenBurnsIndex >= 0 && (
+        <KenBurnsModal
+          frame={frames[kenBurnsIndex]}
+          canvas={canvas}
+          onGenerate={insertKenBurns}
+          onClose={() => setKenBurnsFrame(null)}
+        />
+      )}
+
+      {spriteImport && (
+        <SpriteSheetImportModal
+          image={spriteImport.image}
+          atlas={spriteImport.atlas}
+          defaultDelay={globalDelay}
+          onImport={importSprites}
+          onClose={() => setSpriteImport(null)}
+        />
       )}
 
-      {(generatedApng || generatedWebP) && (
+      {transitionIndex >= 0 && transitionIndex < frames.length - 1 && (
+        <TransitionModal
+          from={frames[transitionIndex]}
+          to={frames[transitionIndex + 1]}
+          canvasWidth={canvas.width}
+          canvasHeight={canvas.height}
+          onInsert={insertTransition}
+          onClose={() => setTransitionFrom(null)}
+        />
+      )}
+
+      {(resultUrl || progress || generateError) && (
         <div className="result-section">
-          <h2 style={{color: 'var(--text-primary)', marginBottom: '1rem'}}>
-            🎉 {generatedApng ? 'APNG' : 'WebP'} Ready!
-          </h2>
-
-          <img src={generatedApng || generatedWebP!} className="result-preview" alt="Generated Animation" />
-
-          <div className="result-controls" style={{marginTop: '1.5rem', display: 'flex', flexDirection: 'column', gap: '1rem', alignItems: 'center'}}>
-            {resultSize && (
-               <span style={{fontSize: '0.9rem', color: 'var(--text-secondary)', background: 'var(--bg-secondary)', padding: '4px 12px', borderRadius: '12px', border: '1px solid var(--border-color)'}}>
-                 Size: {resultSize}
-               </span>
-            )}
-
-            <div style={{width: '100%', maxWidth: '400px'}}>
-              {generatedApng ? (
-                <div>
+          {progress && (
+            <div style={{display: 'flex', alignItems: 'center', gap: '0.75rem', maxWidth: '400px', margin: '0 auto 1rem'}}>
+              <div style={{flex: 1}}>
+                <div style={{fontSize: '0.875rem', color: 'var(--text-secondary)', marginBottom: '0.25rem'}}>
+                  {progress.stage}… {progress.done} / {progress.total} frames
+                </div>
+                <div style={{height: '8px', background: 'var(--bg-secondary)', border: '1px solid var(--border-color)', borderRadius: '4px', overflow: 'hidden'}}>
+                  <div style={{height: '100%', width: `${(progress.done / progress.total) * 100}%`, background: 'var(--accent-color)', transition: 'width 0.2s'}}></div>
+                </div>
+              </div>
+              <button className="btn btn-danger" onClick={cancelGenerate} title="Stop encoding">
+                <X size={18} /> Cancel
+              </button>
+            </div>
+          )}
+
+          {generateError && (
+            <div style={{maxWidth: '400px', margin: '0 auto 1rem', padding: '0.75rem', color: 'var(--danger-color)', background: 'var(--bg-secondary)', border: '1px solid var(--danger-color)', borderRadius: '8px', fontSize: '0.9rem'}}>
+              Encoding failed: {generateError}
+            </div>
+          )}
+
+          {resultUrl && (
+            <>
+              <h2 style={{color: 'var(--text-primary)', marginBottom: '1rem'}}>
+                🎉 {resultFormat} Ready!
+              </h2>
+
+              {generatedSequence ? (
+                <div style={{display: 'inline-flex', alignItems: 'center', gap: '0.75rem', padding: '1.5rem 2rem', background: 'var(--bg-secondary)', border: '1px dashed var(--border-color)', borderRadius: '12px', color: 'var(--text-secondary)'}}>
+                  <FileArchive size={40} />
+                  <span>ZIP with numbered {sequenceFormat.toUpperCase()} frames, a JSON manifest and an ffmpeg concat list</span>
+                </div>
+              ) : (
+                <img src={resultUrl} className="result-preview" alt="Generated Animation" />
+              )}
+
+              <div className="result-controls" style={{marginTop: '1.5rem', display: 'flex', flexDirection: 'column', gap: '1rem', alignItems: 'center'}}>
+                {resultSize && (
+                   <span style={{fontSize: '0.9rem', color: 'var(--text-secondary)', background: 'var(--bg-secondary)', padding: '4px 12px', borderRadius: '12px', border: '1px solid var(--border-color)'}}>
+                     Size: {resultSize}
+                   </span>
+                )}
+
+                <div style={{width: '100%', maxWidth: '400px'}}>
                   <div style={{display: 'flex', alignItems: 'center', gap: '0.75rem', padding: '0.5rem', background: 'var(--bg-secondary)', border: '1px solid var(--border-color)', borderRadius: '8px', marginBottom: '0.5rem'}}>
-                    <label style={{fontSize: '0.875rem', color: 'var(--text-secondary)', whiteSpace: 'nowrap'}}>APNG Compression:</label>
+                    <label style={{fontSize: '0.875rem', color: 'var(--text-secondary)', whiteSpace: 'nowrap'}} title="Total number of plays, 0 loops forever">Plays (0 = ∞):</label>
                     <input
-                      type="range"
+                      type="number"
+                      className="frame-delay-input"
                       min="0"
-                      max="9"
-                      step="1"
-                      value={apngCompression}
-                      onChange={(e) => setApngCompression(parseInt(e.target.value))}
-                      style={{flex: 1}}
+                      max="65535"
+                      value={loopCount}
+                      onChange={(e) => setLoopCount(Math.max(0, Math.min(65535, parseInt(e.target.value) || 0)))}
+                    />
+                    <div style={{flex: 1}}></div>
+                    <label style={{fontSize: '0.875rem', color: 'var(--text-secondary)', whiteSpace: 'nowrap'}} title="Canvas background stored in the WebP ANIM / APNG bKGD chunk">Background:</label>
+                    <input
+                      type="color"
+                      value={backgroundColor}
+                      disabled={backgroundTransparent}
+                      onChange={(e) => setBackgroundColor(e.target.value)}
                     />
-                    <span style={{fontSize: '0.875rem', color: 'var(--text-primary)', minWidth: '32px'}}>
-                      {apngCompression}
-                    </span>
+                    <label style={{fontSize: '0.875rem', color: 'var(--text-secondary)', whiteSpace: 'nowrap'}}>
+                      <input type="checkbox" checked={backgroundTransparent} onChange={(e) => setBackgroundTransparent(e.target.checked)} /> Transparent
+                    </label>
                   </div>
+                  {generatedApng && (
+                    <>
+                      <div style={{display: 'flex', alignItems: 'center', gap: '0.75rem', padding: '0.5rem', background: 'var(--bg-secondary)', border: '1px solid var(--border-color)', borderRadius: '8px', marginBottom: '0.5rem'}}>
+                        <label style={{fontSize: '0.875rem', color: 'var(--text-secondary)', whiteSpace: 'nowrap'}} title="Palette size; the frames are reduced to it before PNG compression">APNG Colors:</label>
+                        <select
+                          value={apngColors}
+                          onChange={(e) => setApngColors(parseInt(e.target.value))}
+                          className="frame-delay-input"
+                          style={{flex: 1, width: 'auto'}}
+                        >
+                          {APNG_COLOR_CHOICES.map(colors => (
+                            <option key={colors} value={colors}>
+                              {colors === 0 ? 'Lossless' : `${colors} colors`}{apngEstimate({ colors, dither: apngDither, globalPalette: apngGlobalPalette })}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      {apngColors > 0 && (
+                        <div style={{display: 'flex', alignItems: 'center', gap: '0.75rem', padding: '0.5rem', background: 'var(--bg-secondary)', border: '1px solid var(--border-color)', borderRadius: '8px', marginBottom: '0.5rem'}}>
+                          <label style={{fontSize: '0.875rem', color: 'var(--text-secondary)', whiteSpace: 'nowrap'}}>Dithering:</label>
+                          <select
+                            value={apngDither}
+                            onChange={(e) => setApngDither(e.target.value as DitherMode)}
+                            className="frame-delay-input"
+                            style={{flex: 1, width: 'auto'}}
+                          >
+                            {DITHER_MODES.map(({ value, label }) => (
+                              <option key={value} value={value}>
+                                {label}{apngEstimate({ colors: apngColors, dither: value, globalPalette: apngGlobalPalette })}
+                              </option>
+                            ))}
+                          </select>
+                          <label
+                            style={{fontSize: '0.875rem', color: 'var(--text-secondary)', whiteSpace: 'nowrap'}}
+                            title={`One palette for all frames (indexed PNG). Without it every frame gets its own palette and is stored as truecolor${apngEstimate({ colors: apngColors, dither: apngDither, globalPalette: false })}`}
+                          >
+                            <input type="checkbox" checked={apngGlobalPalette} onChange={(e) => setApngGlobalPalette(e.target.checked)} /> Global palette
+                            {apngEstimate({ colors: apngColors, dither: apngDither, globalPalette: true })}
+                          </label>
+                        </div>
+                      )}
+                    </>
+                  )}
+                  {generatedWebP && (
+                    <>
+                      <div style={{display: 'flex', alignItems: 'center', gap: '0.75rem', padding: '0.5rem', background: 'var(--bg-secondary)', border: '1px solid var(--border-color)', borderRadius: '8px', marginBottom: '0.5rem'}}>
+                        <label style={{fontSize: '0.875rem', color: 'var(--text-secondary)', whiteSpace: 'nowrap'}}>WebP Mode:</label>
+                        <select
+                          value={webpMode}
+                          onChange={(e) => setWebpMode(e.target.value as WebPMode)}
+                          className="frame-delay-input"
+                          style={{flex: 1, width: 'auto'}}
+                        >
+                          <option value="lossy">Lossy (VP8)</option>
+                          <option value="lossless">Lossless (VP8L)</option>
+                          <option value="auto">Auto (smallest per frame)</option>
+                        </select>
+                      </div>
+                      {webpMode !== 'lossless' && (
+                        <div style={{display: 'flex', alignItems: 'center', gap: '0.75rem', padding: '0.5rem', background: 'var(--bg-secondary)', border: '1px solid var(--border-color)', borderRadius: '8px', marginBottom: '0.5rem'}}>
+                          <label style={{fontSize: '0.875rem', color: 'var(--text-secondary)', whiteSpace: 'nowrap'}}>WebP Quality:</label>
+                          <input
+                            type="range"
+                            min="0.1"
+                            max="1.0"
+                            step="0.05"
+                            value={webpQuality}
+                            onChange={(e) => setWebpQuality(parseFloat(e.target.value))}
+                            style={{flex: 1}}
+                          />
+                          <span style={{fontSize: '0.875rem', color: 'var(--text-primary)', minWidth: '32px'}}>
+                            {Math.round(webpQuality * 100)}%
+                          </span>
+                        </div>
+                      )}
+                      {webpMode === 'auto' && (
+                        <div style={{display: 'flex', alignItems: 'center', gap: '0.75rem', padding: '0.5rem', background: 'var(--bg-secondary)', border: '1px solid var(--border-color)', borderRadius: '8px', marginBottom: '0.5rem'}}>
+                          <label style={{fontSize: '0.875rem', color: 'var(--text-secondary)', whiteSpace: 'nowrap'}} title="Lossy frames below this PSNR fall back to lossless">Min PSNR:</label>
+                          <input
+                            type="range"
+                            min="25"
+                            max="55"
+                            step="1"
+                            value={webpMinPsnr}
+                            onChange={(e) => setWebpMinPsnr(parseInt(e.target.value))}
+                            style={{flex: 1}}
+                          />
+                          <span style={{fontSize: '0.875rem', color: 'var(--text-primary)', minWidth: '32px'}}>
+                            {webpMinPsnr} dB
+                          </span>
+                        </div>
+                      )}
+                    </>
+                  )}
+                  {generatedGif && (
+                    <>
+                      <div style={{display: 'flex', alignItems: 'center', gap: '0.75rem', padding: '0.5rem', background: 'var(--bg-secondary)', border: '1px solid var(--border-color)', borderRadius: '8px', marginBottom: '0.5rem'}}>
+                        <label style={{fontSize: '0.875rem', color: 'var(--text-secondary)', whiteSpace: 'nowrap'}}>GIF Colors:</label>
+                        <input
+                          type="range"
+                          min="1"
+                          max="8"
+                          step="1"
+                          value={Math.log2(gifColors)}
+                          onChange={(e) => setGifColors(1 << parseInt(e.target.value))}
+                          style={{flex: 1}}
+                        />
+                        <span style={{fontSize: '0.875rem', color: 'var(--text-primary)', minWidth: '32px'}}>
+                          {gifColors}
+                        </span>
+                      </div>
+                      <div style={{display: 'flex', alignItems: 'center', gap: '0.75rem', padding: '0.5rem', background: 'var(--bg-secondary)', border: '1px solid var(--border-color)', borderRadius: '8px', marginBottom: '0.5rem'}}>
+                        <label style={{fontSize: '0.875rem', color: 'var(--text-secondary)', whiteSpace: 'nowrap'}}>
+                          <input type="checkbox" checked={gifDither} onChange={(e) => setGifDither(e.target.checked)} /> Dithering
+                        </label>
+                      </div>
+                    </>
+                  )}
+                  {generatedSequence && (
+                    <div style={{display: 'flex', alignItems: 'center', gap: '0.75rem', padding: '0.5rem', background: 'var(--bg-secondary)', border: '1px solid var(--border-color)', borderRadius: '8px', marginBottom: '0.5rem'}}>
+                      <label style={{fontSize: '0.875rem', color: 'var(--text-secondary)', whiteSpace: 'nowrap'}}>Frame Format:</label>
+                      <select
+                        value={sequenceFormat}
+                        onChange={(e) => setSequenceFormat(e.target.value as SequenceImageFormat)}
+                        className="frame-delay-input"
+                        style={{width: 'auto'}}
+                      >
+                        <option value="png">PNG</option>
+                        <option value="webp">WebP</option>
+                        <option value="jpeg">JPG</option>
+                      </select>
+                      {sequenceFormat !== 'png' && (
+                        <>
+                          <input
+                            type="range"
+                            min="0.1"
+                            max="1.0"
+                            step="0.05"
+                            value={sequenceQuality}
+                            onChange={(e) => setSequenceQuality(parseFloat(e.target.value))}
+                            style={{flex: 1}}
+                            title="Quality"
+                          />
+                          <span style={{fontSize: '0.875rem', color: 'var(--text-primary)', minWidth: '32px'}}>
+                            {Math.round(sequenceQuality * 100)}%
+                          </span>
+                        </>
+                      )}
+                    </div>
+                  )}
+                  {generatedSprite && (
+                    <div style={{display: 'flex', alignItems: 'center', gap: '0.75rem', padding: '0.5rem', background: 'var(--bg-secondary)', border: '1px solid var(--border-color)', borderRadius: '8px', marginBottom: '0.5rem'}}>
+                      <label style={{fontSize: '0.875rem', color: 'var(--text-secondary)', whiteSpace: 'nowrap'}} title="Frames per row, 0 makes the sheet as square as possible">Columns (0 = auto):</label>
+                      <input
+                        type="number"
+                        className="frame-delay-input"
+                        min="0"
+                        value={spriteColumns}
+                        onChange={(e) => setSpriteColumns(Math.max(0, parseInt(e.target.value) || 0))}
+                      />
+                      <div style={{flex: 1}}></div>
+                      <label style={{fontSize: '0.875rem', color: 'var(--text-secondary)', whiteSpace: 'nowrap'}} title="Transparent gap between frames">Padding (px):</label>
+                      <input
+                        type="number"
+                        className="frame-delay-input"
+                        min="0"
+                        max="64"
+                        value={spritePadding}
+                        onChange={(e) => setSpritePadding(Math.max(0, Math.min(64, parseInt(e.target.value) || 0)))}
+                      />
+                    </div>
+                  )}
                   <div style={{display: 'flex', gap: '0.5rem', justifyContent: 'center'}}>
-                    <button className="btn btn-primary" onClick={generateAPNG} disabled={isGenerating} title="Re-generate APNG">
-                      {isGenerating ? <span className="loading-spinner" style={{width: '18px', height: '18px'}}></span> : <>↻ APNG</>}
+                    <button className={`btn ${generatedApng ? 'btn-primary' : 'btn-secondary'}`} onClick={() => generate('apng')} disabled={isGenerating} title={generatedApng ? "Re-generate APNG" : "Generate APNG instead"}>
+                      {isGenerating ? <span className="loading-spinner" style={{width: '18px', height: '18px'}}></span> : generatedApng ? <>↻ APNG</> : <><Play size={18} fill="currentColor" /> APNG</>}
                     </button>
-                    <button className="btn btn-secondary" onClick={generateWebP} disabled={isGenerating} title="Generate WebP instead">
-                      {isGenerating ? <span className="loading-spinner" style={{width: '18px', height: '18px', borderColor: 'var(--text-secondary)', borderTopColor: 'var(--text-primary)'}}></span> : <><FileVideo size={18} /> WebP</>}
+                    <button className={`btn ${generatedWebP ? 'btn-primary' : 'btn-secondary'}`} onClick={() => generate('webp')} disabled={isGenerating} title={generatedWebP ? "Re-generate WebP" : "Generate WebP instead"}>
+                      {isGenerating ? <span className="loading-spinner" style={{width: '18px', height: '18px'}}></span> : generatedWebP ? <>↻ WebP</> : <><FileVideo size={18} /> WebP</>}
+                    </button>
+                    <button className={`btn ${generatedGif ? 'btn-primary' : 'btn-secondary'}`} onClick={() => generate('gif')} disabled={isGenerating} title={generatedGif ? "Re-generate GIF" : "Generate GIF instead"}>
+                      {isGenerating ? <span className="loading-spinner" style={{width: '18px', height: '18px'}}></span> : generatedGif ? <>↻ GIF</> : <><ImageIcon size={18} /> GIF</>}
+                    </button>
+                    <button className={`btn ${generatedSprite ? 'btn-primary' : 'btn-secondary'}`} onClick={() => generate('spritesheet')} disabled={isGenerating} title={generatedSprite ? "Re-generate Sprite Sheet" : "Generate Sprite Sheet instead"}>
+                      {isGenerating ? <span className="loading-spinner" style={{width: '18px', height: '18px'}}></span> : generatedSprite ? <>↻ Sheet</> : <><LayoutGrid size={18} /> Sheet</>}
+                    </button>
+                    <button className={`btn ${generatedSequence ? 'btn-primary' : 'btn-secondary'}`} onClick={() => generate('sequence')} disabled={isGenerating} title={generatedSequence ? "Re-generate ZIP" : "Generate ZIP image sequence instead"}>
+                      {isGenerating ? <span className="loading-spinner" style={{width: '18px', height: '18px'}}></span> : generatedSequence ? <>↻ ZIP</> : <><FileArchive size={18} /> ZIP</>}
                     </button>
                   </div>
                 </div>
-              ) : (
-                <div>
-                  <div style={{display: 'flex', alignItems: 'center', gap: '0.75rem', padding: '0.5rem', background: 'var(--bg-secondary)', border: '1px solid var(--border-color)', borderRadius: '8px', marginBottom: '0.5rem'}}>
-                    <label style={{fontSize: '0.875rem', color: 'var(--text-secondary)', whiteSpace: 'nowrap'}}>WebP Quality:</label>
+
+                <div className="filename-input-group" style={{display: 'flex', alignItems: 'center', gap: '0.5rem'}}>
+                    <FilePenLine size={18} color="var(--text-secondary)" />
                     <input
-                      type="range"
-                      min="0.1"
-                      max="1.0"
-                      step="0.05"
-                      value={webpQuality}
-                      onChange={(e) => setWebpQuality(parseFloat(e.target.value))}
-                      style={{flex: 1}}
+                      type="text"
+                      value={exportFileName}
+                      onChange={(e) => setExportFileName(e.target.value)}
+                      className="file-input-text"
+                      style={{
+                        background: 'transparent',
+                        border: 'none',
+                        borderBottom: '1px solid var(--border-color)',
+                        color: 'var(--text-primary)',
+                        padding: '4px',
+                        fontSize: '1rem',
+                        textAlign: 'center',
+                        outline: 'none',
+                        minWidth: '150px'
+                      }}
                     />
-                    <span style={{fontSize: '0.875rem', color: 'var(--text-primary)', minWidth: '32px'}}>
-                      {Math.round(webpQuality * 100)}%
-                    </span>
-                  </div>
-                  <div style={{display: 'flex', gap: '0.5rem', justifyContent: 'center'}}>
-                    <button className="btn btn-primary" onClick={generateWebP} disabled={isGenerating} title="Re-generate WebP">
-                      {isGenerating ? <span className="loading-spinner" style={{width: '18px', height: '18px'}}></span> : <>↻ WebP</>}
+                    <span style={{color: 'var(--text-secondary)'}}>.{resultExtension}</span>
+                </div>
+
+                <div style={{display: 'flex', gap: '0.5rem'}}>
+                  <a href={resultUrl} download={`${exportFileName}.${resultExtension}`} style={{textDecoration: 'none'}}>
+                    <button className="btn btn-primary" style={{padding: '0.8rem 2rem', fontSize: '1.1rem'}}>
+                      <Download size={20} /> Download
                     </button>
-                    <button className="btn btn-secondary" onClick={generateAPNG} disabled={isGenerating} title="Generate APNG instead">
-                      {isGenerating ? <span className="loading-spinner" style={{width: '18px', height: '18px', borderColor: 'var(--text-secondary)', borderTopColor: 'var(--text-primary)'}}></span> : <><Play size={18} fill="currentColor" /> APNG</>}
+                  </a>
+                  {generatedSprite && spriteAtlas && (
+                    <button className="btn btn-secondary" style={{padding: '0.8rem 1.5rem', fontSize: '1.1rem'}} onClick={downloadAtlas} title={`JSON atlas (TexturePacker / Aseprite hash format) for ${exportFileName}.png`}>
+                      <FileJson size={20} /> Atlas
                     </button>
-                  </div>
+                  )}
                 </div>
-              )}
-            </div>
-
-            <div className="filename-input-group" style={{display: 'flex', alignItems: 'center', gap: '0.5rem'}}>
-                <FilePenLine size={18} color="var(--text-secondary)" />
-                <input
-                  type="text"
-                  value={exportFileName}
-                  onChange={(e) => setExportFileName(e.target.value)}
-                  className="file-input-text"
-                  style={{
-                    background: 'transparent',
-                    border: 'none',
-                    borderBottom: '1px solid var(--border-color)',
-                    color: 'var(--text-primary)',
-                    padding: '4px',
-                    fontSize: '1rem',
-                    textAlign: 'center',
-                    outline: 'none',
-                    minWidth: '150px'
-                  }}
-                />
-                <span style={{color: 'var(--text-secondary)'}}>.{generatedApng ? 'png' : 'webp'}</span>
-            </div>
-
-            <a href={generatedApng || generatedWebP!} download={`${exportFileName}.${generatedApng ? 'png' : 'webp'}`} style={{textDecoration: 'none'}}>
-              <button className="btn btn-primary" style={{padding: '0.8rem 2rem', fontSize: '1.1rem'}}>
-                <Download size={20} /> Download
-              </button>
-            </a>
-          </div>
+              </div>
+            </>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { Clock, Percent, Move, Copy, ClipboardPaste, Trash2, ChevronsLeft, ChevronLeft, ChevronRight, ChevronsRight, X } from 'lucide-react';
+import { Frame } from '../types';
+import { FrameTransform } from '../utils/render';
+import { moveFrames, moveFramesToEdge } from '../utils/sequence';
+
+interface BulkEditPanelProps {
+  frames: Frame[];
+  selectedIds: Set<string>;
+  focusId: string | null; // Last clicked frame, the source for Copy
+  onChange: (frames: Frame[]) => void;
+  onDelete: () => void;
+  onClearSelection: () => void;
+}
+
+// scaleY is listed so applying it also clears the stretch of stretched frames
+const IDENTITY: FrameTransform = { offsetX: 0, offsetY: 0, scale: 1, scaleY: undefined, rotation: 0 };
+
+// Edits applied to every selected frame at once
+export const BulkEditPanel: React.FC<BulkEditPanelProps> = ({ frames, selectedIds, focusId, onChange, onDelete, onClearSelection }) => {
+  const [delay, setDelay] = useState(100);
+  const [delayPercent, setDelayPercent] = useState(100);
+  const [transform, setTransform] = useState<FrameTransform>(IDENTITY); // Doubles as the copied transform
+
+  const selectedCount = frames.filter(f => selectedIds.has(f.id)).length;
+  const none = selectedCount === 0;
+  const focusIndex = frames.findIndex(f => f.id === focusId && selectedIds.has(f.id));
+  const source = frames[focusIndex >= 0 ? focusIndex : frames.findIndex(f => selectedIds.has(f.id))];
+
+  const updateSelected = (update: (f: Frame) => Partial<Frame>) => {
+    onChange(frames.map(f => selectedIds.has(f.id) ? { ...f, ...update(f) } : f));
+  };
+
+  const copyTransform = () => {
+    if (!source) return;
+    const { offsetX, offsetY, scale, scaleY, rotation } = source;
+    setTransform({ offsetX, offsetY, scale, scaleY, rotation });
+  };
+
+  const transformInput = (key: 'offsetX' | 'offsetY' | 'scale' | 'rotation', title: string, factor = 1) => (
+    <input
+      type="number"
+      className="frame-delay-input"
+      style={{width: '64px'}}
+      value={parseFloat((transform[key] * factor).toFixed(2))}
+      title={title}
+      onChange={(e) => {
+        const value = (parseFloat(e.target.value) || 0) / factor;
+        setTransform(prev => key === 'scale'
+          ? { ...prev, scale: Math.max(0.01, value), scaleY: prev.scaleY !== undefined ? prev.scaleY * (Math.max(0.01, value) / prev.scale) : undefined }
+          : { ...prev, [key]: value });
+      }}
+    />
+  );
+
+  return (
+    <div className="bulk-panel">
+      <div className="control-group">
+        <span className="value-badge" style={{minWidth: '90px'}}>{selectedCount} selected</span>
+        <button className="btn-icon-small" onClick={onClearSelection} disabled={none} title="Clear selection (Esc)">
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="control-group">
+        <Clock size={16} />
+        <input
+          type="number"
+          className="frame-delay-input"
+          style={{width: '70px'}}
+          min="0"
+          value={delay}
+          onChange={(e) => setDelay(Math.max(0, parseInt(e.target.value) || 0))}
+          title="Delay (ms)"
+        />
+        <button className="btn btn-secondary" onClick={() => updateSelected(() => ({ delay }))} disabled={none}>Set</button>
+        <Percent size={16} />
+        <input
+          type="number"
+          className="frame-delay-input"
+          style={{width: '64px'}}
+          min="1"
+          value={delayPercent}
+          onChange={(e) => setDelayPercent(Math.max(1, parseInt(e.target.value) || 0))}
+          title="Scale delays by this percentage"
+        />
+        <button
+          className="btn btn-secondary"
+          onClick={() => updateSelected(f => ({ delay: Math.round((f.delay * delayPercent) / 100) }))}
+          disabled={none}
+        >
+          Scale
+        </button>
+      </div>
+
+      <div className="control-group">
+        <Move size={16} />
+        {transformInput('offsetX', 'Offset X (px)')}
+        {transformInput('offsetY', 'Offset Y (px)')}
+        {transformInput('scale', 'Scale (%)', 100)}
+        {transformInput('rotation', 'Rotation (°)')}
+        <button
+          className="btn-icon-small"
+          onClick={copyTransform}
+          disabled={!source}
+          title={source ? `Copy the transform of frame #${frames.indexOf(source) + 1}` : 'Select a frame to copy its transform'}
+        >
+          <Copy size={14} />
+        </button>
+        <button className="btn-icon-small" onClick={() => updateSelected(() => transform)} disabled={none} title="Apply this transform to the selected frames">
+          <ClipboardPaste size={14} />
+        </button>
+        <button className="btn-icon-small" onClick={() => setTransform(IDENTITY)} title="Reset the fields">
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="control-group">
+        <button className="btn-icon-small" onClick={() => onChange(moveFramesToEdge(frames, selectedIds, 'start'))} disabled={none} title="Move to start">
+          <ChevronsLeft size={14} />
+        </button>
+        <button className="btn-icon-small" onClick={() => onChange(moveFrames(frames, selectedIds, -1))} disabled={none} title="Move one place earlier">
+          <ChevronLeft size={14} />
+        </button>
+        <button className="btn-icon-small" onClick={() => onChange(moveFrames(frames, selectedIds, 1))} disabled={none} title="Move one place later">
+          <ChevronRight size={14} />
+        </button>
+        <button className="btn-icon-small" onClick={() => onChange(moveFramesToEdge(frames, selectedIds, 'end'))} disabled={none} title="Move to end">
+          <ChevronsRight size={14} />
+        </button>
+        <button className="btn btn-danger" onClick={onDelete} disabled={none} title="Delete the selected frames">
+          <Trash2 size={16} />
+        </button>
+      </div>
+    </div>
+  );
+};
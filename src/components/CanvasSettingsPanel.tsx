@@ -0,0 +1,191 @@
+import React, { useState, useRef } from 'react';
+import { Crop, Maximize, RotateCcw, PaintBucket, ImagePlus } from 'lucide-react';
+import { CanvasSettings, defaultCanvas, outputSize } from '../utils/render';
+import { BackgroundFill, BACKGROUND_MODES } from '../utils/background';
+
+const ASPECT_PRESETS: { label: string; ratio: number }[] = [
+  { label: '1:1', ratio: 1 },
+  { label: '4:3', ratio: 4 / 3 },
+  { label: '3:2', ratio: 3 / 2 },
+  { label: '16:9', ratio: 16 / 9 },
+  { label: '9:16', ratio: 9 / 16 }
+];
+
+interface CanvasSettingsPanelProps {
+  canvas: CanvasSettings;
+  followsBase: boolean; // True while the canvas simply mirrors the base frame size
+  baseWidth: number;
+  baseHeight: number;
+  onChange: (canvas: CanvasSettings | null) => void; // null = follow the base frame again
+  background: BackgroundFill;
+  onBackgroundChange: (changes: Partial<BackgroundFill>) => void;
+}
+
+const clampInt = (value: number, min: number, max: number) => Math.max(min, Math.min(max, Math.round(value) || 0));
+
+interface DraftNumberInputProps {
+  value: number;
+  title: string;
+  onCommit: (value: number) => void;
+}
+
+// Keeps the typed text as a draft and applies it on blur or Enter (Escape discards), so clearing
+// the field to type a new size doesn't shrink the canvas to 1 px and reset the crop on the way
+const DraftNumberInput: React.FC<DraftNumberInputProps> = ({ value, title, onCommit }) => {
+  const [draft, setDraft] = useState<string | null>(null); // null = showing the applied value
+
+  const commit = () => {
+    const parsed = parseInt(draft ?? '');
+    if (!isNaN(parsed)) onCommit(parsed);
+    setDraft(null);
+  };
+
+  return (
+    <input
+      type="number"
+      className="frame-delay-input"
+      style={{width: '70px'}}
+      value={draft ?? value}
+      title={title}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit();
+        else if (e.key === 'Escape') setDraft(null);
+      }}
+    />
+  );
+};
+
+// Output canvas size, aspect padding, crop region, output scaling and the background fill
+export const CanvasSettingsPanel: React.FC<CanvasSettingsPanelProps> = ({
+  canvas, followsBase, baseWidth, baseHeight, onChange, background, onBackgroundChange
+}) => {
+  const out = outputSize(canvas);
+  const backgroundInputRef = useRef<HTMLInputElement>(null);
+
+  // Resizing the canvas resets the crop to the full canvas but keeps the output scale
+  const setSize = (width: number, height: number) => {
+    onChange({ ...defaultCanvas(clampInt(width, 1, 8192), clampInt(height, 1, 8192)), scale: canvas.scale });
+  };
+
+  // Pads the canvas (never shrinks it) until it matches the ratio
+  const applyAspect = (ratio: number) => {
+    if (canvas.width / canvas.height < ratio) setSize(canvas.height * ratio, canvas.height);
+    else setSize(canvas.width, canvas.width / ratio);
+  };
+
+  const setCrop = (key: 'x' | 'y' | 'width' | 'height', value: number) => {
+    const crop = { ...canvas.crop, [key]: value };
+    crop.x = clampInt(crop.x, 0, canvas.width - 1);
+    crop.y = clampInt(crop.y, 0, canvas.height - 1);
+    crop.width = clampInt(crop.width, 1, canvas.width - crop.x);
+    crop.height = clampInt(crop.height, 1, canvas.height - crop.y);
+    onChange({ ...canvas, crop });
+  };
+
+  const setOutputWidth = (width: number) => {
+    const scale = Math.max(0.01, Math.min(8, (width || 1) / canvas.crop.width));
+    onChange({ ...canvas, scale });
+  };
+
+  const numberInput = (value: number, onValue: (v: number) => void, title: string) => (
+    <DraftNumberInput value={value} title={title} onCommit={onValue} />
+  );
+
+  const isFullCrop = canvas.crop.x === 0 && canvas.crop.y === 0 &&
+    canvas.crop.width === canvas.width && canvas.crop.height === canvas.height;
+
+  return (
+    <div className="canvas-panel">
+      <div className="control-group">
+        <Maximize size={16} />
+        <label>Canvas</label>
+        {numberInput(canvas.width, w => setSize(w, canvas.height), 'Canvas width')}
+        <span>×</span>
+        {numberInput(canvas.height, h => setSize(canvas.width, h), 'Canvas height')}
+        <select
+          value=""
+          onChange={(e) => e.target.value && applyAspect(parseFloat(e.target.value))}
+          className="frame-delay-input"
+          style={{width: 'auto'}}
+          title="Pad the canvas to an aspect ratio"
+        >
+          <option value="">Aspect…</option>
+          {ASPECT_PRESETS.map(p => <option key={p.label} value={p.ratio}>{p.label}</option>)}
+        </select>
+        <button
+          className="btn-icon-small"
+          onClick={() => onChange(null)}
+          disabled={followsBase}
+          title={`Match base frame (${baseWidth} × ${baseHeight})`}
+        >
+          <RotateCcw size={14} />
+        </button>
+      </div>
+
+      <div className="control-group">
+        <Crop size={16} />
+        <label>Crop</label>
+        {numberInput(canvas.crop.x, v => setCrop('x', v), 'Crop left')}
+        {numberInput(canvas.crop.y, v => setCrop('y', v), 'Crop top')}
+        {numberInput(canvas.crop.width, v => setCrop('width', v), 'Crop width')}
+        {numberInput(canvas.crop.height, v => setCrop('height', v), 'Crop height')}
+        <button
+          className="btn-icon-small"
+          onClick={() => onChange({ ...canvas, crop: { x: 0, y: 0, width: canvas.width, height: canvas.height } })}
+          disabled={isFullCrop}
+          title="Reset crop to the full canvas"
+        >
+          <RotateCcw size={14} />
+        </button>
+      </div>
+
+      <div className="control-group">
+        <label>Output width</label>
+        {numberInput(out.width, setOutputWidth, 'Output width in pixels (height follows the crop aspect)')}
+        <span className="value-badge" style={{minWidth: '120px'}}>
+          {out.width} × {out.height} px · {Math.round(canvas.scale * 100)}%
+        </span>
+      </div>
+
+      <div className="control-group">
+        <PaintBucket size={16} />
+        <label>Fill</label>
+        <select
+          value={background.mode}
+          onChange={(e) => onBackgroundChange({ mode: e.target.value as BackgroundFill['mode'] })}
+          className="frame-delay-input"
+          style={{width: 'auto'}}
+          title="Drawn under every frame; a fill makes uncovered canvas and transparent pixels opaque"
+        >
+          {BACKGROUND_MODES.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+        </select>
+        {background.mode === 'color' && (
+          <input type="color" value={background.color} onChange={(e) => onBackgroundChange({ color: e.target.value })} title="Fill colour" />
+        )}
+        {background.mode === 'image' && (
+          <>
+            <button className="btn-icon-small" onClick={() => backgroundInputRef.current?.click()} title="Choose the background image (scaled to cover the canvas)">
+              <ImagePlus size={14} />
+            </button>
+            <span className="value-badge" style={{maxWidth: '160px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap'}}>
+              {background.image?.name ?? 'No image'}
+            </span>
+            <input
+              type="file"
+              ref={backgroundInputRef}
+              className="file-input"
+              accept="image/*"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onBackgroundChange({ image: file });
+                e.target.value = '';
+              }}
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
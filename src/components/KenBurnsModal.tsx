@@ -0,0 +1,293 @@
+import React, { useState, useRef, useEffect, useLayoutEffect, useCallback } from 'react';
+import { X, Film, ZoomIn, RefreshCw, Play, Pause, ArrowLeftRight } from 'lucide-react';
+import { Frame } from '../types';
+import { FrameTransform, CanvasSettings, renderFrame, outputSize } from '../utils/render';
+import { Easing, EASINGS, ease, interpolateTransform, kenBurnsTiming, kenBurnsTransforms } from '../utils/keyframes';
+
+type Keyframe = 'start' | 'end';
+
+interface KenBurnsModalProps {
+  frame: Frame;
+  canvas: CanvasSettings;
+  onGenerate: (id: string, transforms: FrameTransform[], delay: number) => void;
+  onClose: () => void;
+}
+
+// Start/end keyframe editor that turns one image into a pan/zoom sequence.
+// Drag and wheel on the preview move the selected keyframe, like the frame editor does.
+export const KenBurnsModal: React.FC<KenBurnsModalProps> = ({ frame, canvas, onGenerate, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  const [imageBitmap, setImageBitmap] = useState<ImageBitmap | null>(null);
+  const [canvasSize, setCanvasSize] = useState({ width: 800, height: 600 });
+  const [keyframes, setKeyframes] = useState<Record<Keyframe, FrameTransform>>(() => {
+    const start = { offsetX: frame.offsetX, offsetY: frame.offsetY, scale: frame.scale || 1, scaleY: frame.scaleY, rotation: frame.rotation || 0 };
+    return { start, end: { ...start, scale: start.scale * 1.25, scaleY: start.scaleY !== undefined ? start.scaleY * 1.25 : undefined } };
+  });
+  const [active, setActive] = useState<Keyframe>('start');
+  const [easing, setEasing] = useState<Easing>('ease-in-out');
+  const [duration, setDuration] = useState(3000);
+  const [fps, setFps] = useState(25);
+  const [playing, setPlaying] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const progressRef = useRef(0);
+  const [isDragging, setIsDragging] = useState(false);
+  const [lastPos, setLastPos] = useState({ x: 0, y: 0 });
+
+  const out = outputSize(canvas);
+  const { count, delay } = kenBurnsTiming(duration, fps);
+  const current = keyframes[active];
+
+  useEffect(() => {
+    document.body.classList.add('modal-open');
+    return () => document.body.classList.remove('modal-open');
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    let bitmap: ImageBitmap | null = null;
+    createImageBitmap(frame.file).then(b => {
+      // Decoded after the modal closed or the frame changed
+      if (cancelled) {
+        b.close();
+        return;
+      }
+      bitmap = b;
+      setImageBitmap(b);
+    });
+    return () => {
+      cancelled = true;
+      bitmap?.close();
+    };
+  }, [frame.file]);
+
+  useLayoutEffect(() => {
+    if (!wrapperRef.current) return;
+    const updateSize = () => {
+      if (!wrapperRef.current) return;
+      setCanvasSize({ width: wrapperRef.current.clientWidth, height: wrapperRef.current.clientHeight });
+    };
+    updateSize();
+    window.addEventListener('resize', updateSize);
+    return () => window.removeEventListener('resize', updateSize);
+  }, []);
+
+  const viewScale = Math.max(0.01, Math.min((canvasSize.width - 40) / out.width, (canvasSize.height - 40) / out.height));
+
+  const updateActive = useCallback((update: (t: FrameTransform) => Partial<FrameTransform>) => {
+    setPlaying(false);
+    setKeyframes(prev => ({ ...prev, [active]: { ...prev[active], ...update(prev[active]) } }));
+  }, [active]);
+
+  // Zooms the selected keyframe, keeping a stretched frame's aspect
+  const zoomActive = useCallback((factor: (scale: number) => number) => {
+    updateActive(t => {
+      const scale = Math.max(0.01, Math.min(20, factor(t.scale)));
+      return { scale, scaleY: t.scaleY !== undefined ? t.scaleY * (scale / t.scale) : undefined };
+    });
+  }, [updateActive]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      zoomActive(s => s - e.deltaY * 0.001 * s);
+    };
+    canvas.addEventListener('wheel', onWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', onWheel);
+  }, [zoomActive]);
+
+  // Preview loop: plays start → end over the duration, then starts over
+  useEffect(() => {
+    if (!playing) return;
+    let raf = 0;
+    const began = performance.now() - progressRef.current * duration;
+    const tick = (now: number) => {
+      progressRef.current = ((now - began) % duration) / duration;
+      setProgress(progressRef.current);
+      raf = requestAnimationFrame(tick);
+    };
+    raf = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(raf);
+  }, [playing, duration]);
+
+  useEffect(() => {
+    const view = canvasRef.current;
+    if (!view || !imageBitmap) return;
+    const ctx = view.getContext('2d');
+    if (!ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    const cw = canvasSize.width, ch = canvasSize.height;
+    if (view.width !== cw * dpr || view.height !== ch * dpr) {
+      view.width = cw * dpr;
+      view.height = ch * dpr;
+    }
+    view.style.width = `${cw}px`;
+    view.style.height = `${ch}px`;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, cw, ch);
+
+    // Render the output exactly like the encoder, then fit it into the view
+    const transform = playing ? interpolateTransform(keyframes.start, keyframes.end, ease(progress, easing)) : current;
+    const output = new OffscreenCanvas(out.width, out.height);
+    const octx = output.getContext('2d');
+    if (!octx) return;
+    renderFrame(octx, imageBitmap, { ...frame, ...transform }, canvas);
+
+    const w = out.width * viewScale, h = out.height * viewScale;
+    const x = (cw - w) / 2, y = (ch - h) / 2;
+    const gridSize = 15;
+    for (let gy = 0; gy < h; gy += gridSize) {
+      for (let gx = 0; gx < w; gx += gridSize) {
+        ctx.fillStyle = (Math.floor(gx / gridSize) + Math.floor(gy / gridSize)) % 2 === 0 ? '#1a1a1a' : '#222';
+        ctx.fillRect(x + gx, y + gy, Math.min(gridSize, w - gx), Math.min(gridSize, h - gy));
+      }
+    }
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(output, x, y, w, h);
+    ctx.strokeStyle = playing ? 'rgba(255, 255, 255, 0.3)' : '#4c6ef5';
+    ctx.lineWidth = 2;
+    ctx.strokeRect(x, y, w, h);
+  }, [imageBitmap, frame, canvasSize, canvas, out.width, out.height, viewScale, keyframes, current, playing, progress, easing]);
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    setIsDragging(true);
+    setLastPos({ x: e.clientX, y: e.clientY });
+  };
+
+  // View pixels → output pixels → composition pixels
+  const handleMouseMove = (e: React.MouseEvent) => {
+    if (!isDragging) return;
+    const k = viewScale * canvas.scale;
+    const dx = (e.clientX - lastPos.x) / k;
+    const dy = (e.clientY - lastPos.y) / k;
+    updateActive(t => ({ offsetX: t.offsetX + dx, offsetY: t.offsetY + dy }));
+    setLastPos({ x: e.clientX, y: e.clientY });
+  };
+
+  const handleMouseUp = () => setIsDragging(false);
+
+  const handleGenerate = () => {
+    onGenerate(frame.id, kenBurnsTransforms({ start: keyframes.start, end: keyframes.end, easing, duration, fps }), delay);
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content" onClick={e => e.stopPropagation()}>
+        <div className="modal-header">
+          <h3>Ken Burns (Pan &amp; Zoom)</h3>
+          <button className="close-modal-btn" onClick={onClose}><X size={24} /></button>
+        </div>
+
+        <div className="canvas-wrapper" ref={wrapperRef}>
+          <canvas
+            ref={canvasRef}
+            className="canvas-container"
+            onMouseDown={handleMouseDown}
+            onMouseMove={handleMouseMove}
+            onMouseUp={handleMouseUp}
+            onMouseLeave={handleMouseUp}
+          />
+        </div>
+
+        <div className="modal-footer">
+          <div className="control-row">
+            <div className="slider-group" style={{flex: 'none', minWidth: 0}}>
+              <label>Keyframe</label>
+              {(['start', 'end'] as Keyframe[]).map(k => (
+                <button
+                  key={k}
+                  className={`btn ${active === k ? 'btn-primary' : 'btn-secondary'}`}
+                  onClick={() => { setActive(k); setPlaying(false); }}
+                >
+                  {k === 'start' ? 'Start' : 'End'}
+                </button>
+              ))}
+              <button
+                className="btn-icon-small"
+                onClick={() => setKeyframes(prev => ({ start: prev.end, end: prev.start }))}
+                title="Swap start and end (zoom in ↔ zoom out)"
+              >
+                <ArrowLeftRight size={14} />
+              </button>
+            </div>
+
+            <div className="slider-group">
+              <ZoomIn size={18} />
+              <label>Zoom</label>
+              <input
+                type="range"
+                min="0.01" max="5" step="0.01"
+                value={current.scale}
+                onChange={(e) => zoomActive(() => parseFloat(e.target.value))}
+                style={{flex: 1}}
+              />
+              <span className="value-badge">{(current.scale * 100).toFixed(0)}%</span>
+            </div>
+
+            <div className="slider-group">
+              <RefreshCw size={18} />
+              <label>Rotate</label>
+              <input
+                type="range"
+                min="-180" max="180" step="1"
+                value={current.rotation}
+                onChange={(e) => updateActive(() => ({ rotation: parseInt(e.target.value) }))}
+                style={{flex: 1}}
+              />
+              <span className="value-badge">{Math.round(current.rotation)}°</span>
+            </div>
+          </div>
+
+          <div className="control-row">
+            <div className="slider-group">
+              <Film size={18} />
+              <label>Easing</label>
+              <select
+                value={easing}
+                onChange={(e) => setEasing(e.target.value as Easing)}
+                className="frame-delay-input"
+                style={{width: 'auto'}}
+              >
+                {EASINGS.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+              </select>
+              <label title="Time from the start to the end keyframe">Duration (ms)</label>
+              <input
+                type="number"
+                className="frame-delay-input"
+                style={{width: '80px'}}
+                min="100"
+                value={duration}
+                onChange={(e) => setDuration(Math.max(100, Math.min(60000, parseInt(e.target.value) || 0)))}
+              />
+              <label>FPS</label>
+              <input
+                type="number"
+                className="frame-delay-input"
+                style={{width: '60px'}}
+                min="1"
+                max="60"
+                value={fps}
+                onChange={(e) => setFps(Math.max(1, Math.min(60, parseInt(e.target.value) || 0)))}
+              />
+              <span className="value-badge" style={{minWidth: '130px'}}>{count} frames · {delay} ms</span>
+              <button className="btn-icon-small" onClick={() => setPlaying(p => !p)} title={playing ? 'Pause preview' : 'Preview the motion'}>
+                {playing ? <Pause size={14} /> : <Play size={14} />}
+              </button>
+            </div>
+          </div>
+
+          <div className="button-group" style={{marginTop: '1rem'}}>
+            <div style={{flex: 1}}></div>
+            <button className="btn btn-secondary" onClick={onClose}>Cancel</button>
+            <button className="btn btn-primary" onClick={handleGenerate} title="Replace this frame with the generated sequence">
+              Generate {count} Frames
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
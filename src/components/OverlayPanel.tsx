@@ -0,0 +1,170 @@
+import React, { useState, useRef } from 'react';
+import { Type, ImagePlus, Eye, EyeOff, ChevronUp, ChevronDown, Trash2 } from 'lucide-react';
+import { Overlay, TextOverlay, ImageOverlay, OVERLAY_FONTS, createTextOverlay, createImageOverlay } from '../utils/overlays';
+
+interface OverlayPanelProps {
+  overlays: Overlay[];
+  frameCount: number;
+  onChange: (overlays: Overlay[]) => void;
+}
+
+// Layer list for text and image overlays; the selected layer's settings are edited below the list
+export const OverlayPanel: React.FC<OverlayPanelProps> = ({ overlays, frameCount, onChange }) => {
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = overlays.find(o => o.id === selectedId);
+
+  const add = (overlay: Overlay) => {
+    onChange([...overlays, overlay]);
+    setSelectedId(overlay.id);
+  };
+
+  const update = (changes: Partial<TextOverlay> | Partial<ImageOverlay>) => {
+    if (!selected) return;
+    onChange(overlays.map(o => o.id === selected.id ? { ...o, ...changes } as Overlay : o));
+  };
+
+  // Later layers draw on top, so "up" moves towards the end of the list
+  const move = (direction: number) => {
+    const i = overlays.findIndex(o => o.id === selectedId);
+    const j = i + direction;
+    if (i < 0 || j < 0 || j >= overlays.length) return;
+    const next = [...overlays];
+    [next[i], next[j]] = [next[j], next[i]];
+    onChange(next);
+  };
+
+  const remove = () => {
+    onChange(overlays.filter(o => o.id !== selectedId));
+    setSelectedId(null);
+  };
+
+  const numberInput = (value: number, onValue: (v: number) => void, title: string, min = -Infinity, max = Infinity, width = '56px') => (
+    <input
+      type="number"
+      className="frame-delay-input"
+      style={{width}}
+      min={Number.isFinite(min) ? min : undefined}
+      max={Number.isFinite(max) ? max : undefined}
+      value={value}
+      title={title}
+      onChange={(e) => onValue(Math.max(min, Math.min(max, parseFloat(e.target.value) || 0)))}
+    />
+  );
+
+  return (
+    <div className="overlay-panel">
+      <div className="control-group">
+        <label>Overlays</label>
+        <button className="btn-icon-small" onClick={() => add(createTextOverlay())} title="Add a text overlay">
+          <Type size={14} />
+        </button>
+        <button className="btn-icon-small" onClick={() => imageInputRef.current?.click()} title="Add an image stamp (logo, watermark)">
+          <ImagePlus size={14} />
+        </button>
+        <input
+          type="file"
+          ref={imageInputRef}
+          className="file-input"
+          accept="image/*"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) add(createImageOverlay(file));
+            e.target.value = '';
+          }}
+        />
+        {overlays.map((o, i) => (
+          <button
+            key={o.id}
+            className={`overlay-chip ${o.id === selectedId ? 'selected' : ''} ${o.hidden ? 'hidden-layer' : ''}`}
+            onClick={() => setSelectedId(o.id === selectedId ? null : o.id)}
+            title={`Layer ${i + 1}`}
+          >
+            {o.kind === 'text' ? <Type size={12} /> : <img src={o.previewUrl} alt="" />}
+            <span>{o.kind === 'text' ? o.text.split('\n')[0] || 'Text' : o.file.name}</span>
+          </button>
+        ))}
+      </div>
+
+      {selected && (
+        <>
+          <div className="control-group">
+            <button className="btn-icon-small" onClick={() => update({ hidden: !selected.hidden })} title={selected.hidden ? 'Show layer' : 'Hide layer'}>
+              {selected.hidden ? <EyeOff size={14} /> : <Eye size={14} />}
+            </button>
+            <button className="btn-icon-small" onClick={() => move(1)} disabled={overlays[overlays.length - 1] === selected} title="Bring forward">
+              <ChevronUp size={14} />
+            </button>
+            <button className="btn-icon-small" onClick={() => move(-1)} disabled={overlays[0] === selected} title="Send backward">
+              <ChevronDown size={14} />
+            </button>
+            <button className="btn-icon-small" onClick={remove} title="Delete layer">
+              <Trash2 size={14} />
+            </button>
+          </div>
+
+          <div className="control-group">
+            <label>Position</label>
+            {numberInput(Math.round(selected.x * 1000) / 10, v => update({ x: v / 100 }), 'Center X (% of the canvas width)')}
+            {numberInput(Math.round(selected.y * 1000) / 10, v => update({ y: v / 100 }), 'Center Y (% of the canvas height)')}
+            <label>Rotate</label>
+            {numberInput(selected.rotation, v => update({ rotation: v }), 'Rotation (°)', -180, 180)}
+            <label>Opacity</label>
+            {numberInput(Math.round(selected.opacity * 100), v => update({ opacity: v / 100 }), 'Opacity (%)', 0, 100)}
+          </div>
+
+          <div className="control-group">
+            <label>Frames</label>
+            {numberInput(selected.firstFrame, v => update({ firstFrame: Math.round(v) }), 'First frame the overlay appears on', 1, Math.max(1, frameCount))}
+            <span>–</span>
+            {numberInput(selected.lastFrame, v => update({ lastFrame: Math.round(v) }), 'Last frame (0 = up to the end)', 0, frameCount)}
+          </div>
+
+          {selected.kind === 'image' ? (
+            <div className="control-group">
+              <label>Scale</label>
+              {numberInput(Math.round(selected.scale * 100), v => update({ scale: Math.max(1, v) / 100 }), 'Scale (% of the image size)', 1)}
+            </div>
+          ) : (
+            <>
+              <div className="control-group">
+                <textarea
+                  className="frame-delay-input"
+                  style={{width: '180px', height: '2.4rem', resize: 'vertical', fontFamily: 'inherit'}}
+                  value={selected.text}
+                  onChange={(e) => update({ text: e.target.value })}
+                  title="Text (Enter for a new line)"
+                />
+                <select
+                  value={selected.font}
+                  onChange={(e) => update({ font: e.target.value })}
+                  className="frame-delay-input"
+                  style={{width: 'auto'}}
+                  title="Font"
+                >
+                  {OVERLAY_FONTS.map(f => <option key={f} value={f} style={{fontFamily: f}}>{f}</option>)}
+                </select>
+                {numberInput(selected.size, v => update({ size: v }), 'Font size (px)', 4, 1000)}
+                <label style={{whiteSpace: 'nowrap'}}>
+                  <input type="checkbox" checked={selected.bold} onChange={(e) => update({ bold: e.target.checked })} /> Bold
+                </label>
+                <input type="color" value={selected.color} onChange={(e) => update({ color: e.target.value })} title="Text colour" />
+              </div>
+
+              <div className="control-group">
+                <label>Stroke</label>
+                <input type="color" value={selected.strokeColor} onChange={(e) => update({ strokeColor: e.target.value })} title="Outline colour" />
+                {numberInput(selected.strokeWidth, v => update({ strokeWidth: v }), 'Outline width (px, 0 = none)', 0, 100)}
+                <label>Shadow</label>
+                <input type="color" value={selected.shadowColor} onChange={(e) => update({ shadowColor: e.target.value })} title="Shadow colour" />
+                {numberInput(selected.shadowBlur, v => update({ shadowBlur: v }), 'Shadow blur (px)', 0, 100)}
+                {numberInput(selected.shadowOffsetX, v => update({ shadowOffsetX: v }), 'Shadow offset X (px)', -100, 100)}
+                {numberInput(selected.shadowOffsetY, v => update({ shadowOffsetY: v }), 'Shadow offset Y (px)', -100, 100)}
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,193 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Play, Pause, SkipBack, SkipForward, Repeat, ArrowLeftRight } from 'lucide-react';
+import { Frame } from '../types';
+import { renderFrame, outputSize, CanvasSettings } from '../utils/render';
+import { Overlay, renderOverlays } from '../utils/overlays';
+import { useOverlayImages } from '../hooks/useOverlayImages';
+import { BackgroundFill, renderBackground } from '../utils/background';
+import { useBackgroundImage } from '../hooks/useBackgroundImage';
+
+type PlaybackMode = 'loop' | 'ping-pong';
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4];
+const MIN_DELAY = 10; // ms, keeps 0 ms frames from stalling the loop
+
+interface PreviewPlayerProps {
+  frames: Frame[];
+  canvas: CanvasSettings;
+  overlays: Overlay[];
+  background: BackgroundFill;
+}
+
+// Canvas player that renders the frames with their current transforms, overlays, background and delays,
+// so edits show up immediately without running an encode
+export const PreviewPlayer: React.FC<PreviewPlayerProps> = ({ frames, canvas: canvasSettings, overlays, background }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const overlayImages = useOverlayImages(overlays);
+  const backgroundImage = useBackgroundImage(background.mode === 'image' ? background.image : null);
+  const bitmapsRef = useRef(new Map<File, ImageBitmap>());
+  const pendingRef = useRef(new Set<File>());
+  const [loadedCount, setLoadedCount] = useState(0);
+
+  const [playing, setPlaying] = useState(true);
+  const [index, setIndex] = useState(0);
+  const [speed, setSpeed] = useState(1);
+  const [mode, setMode] = useState<PlaybackMode>('loop');
+  const indexRef = useRef(0);
+  const directionRef = useRef(1);
+  const framesRef = useRef(frames);
+  framesRef.current = frames;
+
+  const current = Math.min(index, frames.length - 1);
+
+  // Decode each source file once; bitmaps of frames that left the list are released
+  useEffect(() => {
+    const cache = bitmapsRef.current;
+    const files = new Set(frames.map(f => f.file));
+    for (const [file, bitmap] of cache) {
+      if (!files.has(file)) {
+        bitmap.close();
+        cache.delete(file);
+      }
+    }
+    for (const file of files) {
+      if (cache.has(file) || pendingRef.current.has(file)) continue;
+      pendingRef.current.add(file);
+      createImageBitmap(file).then(bitmap => {
+        pendingRef.current.delete(file);
+        cache.set(file, bitmap);
+        setLoadedCount(c => c + 1);
+      }).catch(err => {
+        pendingRef.current.delete(file);
+        console.error(`Preview could not decode ${file.name}:`, err);
+      });
+    }
+  }, [frames]);
+
+  useEffect(() => {
+    const cache = bitmapsRef.current;
+    return () => {
+      cache.forEach(bitmap => bitmap.close());
+      cache.clear();
+    };
+  }, []);
+
+  const goTo = (i: number) => {
+    indexRef.current = i;
+    setIndex(i);
+  };
+
+  // Playback clock: accumulates scaled wall time and advances past every frame whose delay has elapsed
+  useEffect(() => {
+    if (!playing) return;
+    let raf = 0;
+    let last = performance.now();
+    let elapsed = 0;
+
+    const nextIndex = (i: number, count: number) => {
+      if (count <= 1) return 0;
+      if (mode === 'loop') return (i + 1) % count;
+      let next = i + directionRef.current;
+      if (next >= count) {
+        directionRef.current = -1;
+        next = count - 2;
+      } else if (next < 0) {
+        directionRef.current = 1;
+        next = 1;
+      }
+      return next;
+    };
+
+    const tick = (now: number) => {
+      const list = framesRef.current;
+      elapsed += (now - last) * speed;
+      last = now;
+
+      let i = Math.min(indexRef.current, list.length - 1);
+      // Bounded so a long-hidden tab doesn't spin through thousands of frames
+      for (let steps = 0; steps < list.length && elapsed >= Math.max(list[i].delay, MIN_DELAY); steps++) {
+        elapsed -= Math.max(list[i].delay, MIN_DELAY);
+        i = nextIndex(i, list.length);
+      }
+      elapsed = Math.min(elapsed, Math.max(list[i].delay, MIN_DELAY));
+      if (i !== indexRef.current) {
+        indexRef.current = i;
+        setIndex(i);
+      }
+      raf = requestAnimationFrame(tick);
+    };
+
+    raf = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(raf);
+  }, [playing, speed, mode]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || current < 0) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    const { width, height } = outputSize(canvasSettings);
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+    const frame = frames[current];
+    const bitmap = bitmapsRef.current.get(frame.file);
+    if (bitmap) renderFrame(ctx, bitmap, frame, canvasSettings);
+    else ctx.clearRect(0, 0, width, height);
+    renderOverlays(ctx, overlays, current, canvasSettings, overlayImages);
+    renderBackground(ctx, background, backgroundImage, canvasSettings);
+  }, [frames, current, canvasSettings, loadedCount, overlays, overlayImages, background, backgroundImage]);
+
+  const step = (amount: number) => {
+    setPlaying(false);
+    goTo((current + amount + frames.length) % frames.length);
+  };
+
+  if (frames.length === 0) return null;
+
+  return (
+    <div className="preview-player">
+      <canvas ref={canvasRef} className="preview-canvas" />
+      <div className="preview-controls">
+        <button className="btn-icon-small" onClick={() => step(-1)} title="Previous frame"><SkipBack size={14} /></button>
+        <button className="btn-icon-small" onClick={() => setPlaying(p => !p)} title={playing ? 'Pause' : 'Play'}>
+          {playing ? <Pause size={14} /> : <Play size={14} />}
+        </button>
+        <button className="btn-icon-small" onClick={() => step(1)} title="Next frame"><SkipForward size={14} /></button>
+        <input
+          type="range"
+          min="0"
+          max={frames.length - 1}
+          step="1"
+          value={current}
+          onChange={(e) => goTo(parseInt(e.target.value))}
+          style={{flex: 1}}
+          title="Scrub"
+        />
+        <span className="value-badge" style={{minWidth: '110px'}}>
+          {current + 1} / {frames.length} · {frames[current].delay} ms
+        </span>
+        <select
+          value={speed}
+          onChange={(e) => setSpeed(parseFloat(e.target.value))}
+          className="frame-delay-input"
+          style={{width: 'auto'}}
+          title="Playback speed"
+        >
+          {SPEEDS.map(s => <option key={s} value={s}>{s}×</option>)}
+        </select>
+        <button
+          className="btn-icon-small"
+          onClick={() => {
+            directionRef.current = 1;
+            setMode(m => m === 'loop' ? 'ping-pong' : 'loop');
+          }}
+          title={mode === 'loop' ? 'Looping (click for ping-pong)' : 'Ping-pong (click for loop)'}
+        >
+          {mode === 'loop' ? <Repeat size={14} /> : <ArrowLeftRight size={14} />}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { ArrowDownUp, ArrowLeftRight, Copy, Repeat, Combine, Plus } from 'lucide-react';
+import { Frame } from '../types';
+import { CanvasSettings } from '../utils/render';
+import { reverseFrames, pingPongFrames, duplicateFrames, repeatRange, mergeDuplicateFrames } from '../utils/sequence';
+
+interface SequenceToolsPanelProps {
+  frames: Frame[];
+  selectedIds: Set<string>;
+  canvas: CanvasSettings;
+  onChange: (frames: Frame[]) => void;
+}
+
+// Frame list operations (reverse, ping-pong, duplicate, repeat, merge); each one is a single undo step
+export const SequenceToolsPanel: React.FC<SequenceToolsPanelProps> = ({ frames, selectedIds, canvas, onChange }) => {
+  const [rangeStart, setRangeStart] = useState(1);
+  const [rangeEnd, setRangeEnd] = useState(Infinity); // Up to the last frame until edited
+  const [repeatTimes, setRepeatTimes] = useState(2);
+  const [threshold, setThreshold] = useState(0.99);
+  const [isMerging, setIsMerging] = useState(false);
+  const [mergedCount, setMergedCount] = useState<number | null>(null);
+
+  const selectedCount = frames.filter(f => selectedIds.has(f.id)).length;
+  // Range inputs are 1-based frame numbers, clamped to the current list
+  const start = Math.max(1, Math.min(rangeStart, frames.length));
+  const end = Math.max(start, Math.min(rangeEnd, frames.length));
+
+  const handleMerge = async () => {
+    setIsMerging(true);
+    try {
+      const merged = await mergeDuplicateFrames(frames, canvas, threshold);
+      setMergedCount(frames.length - merged.length);
+      if (merged.length !== frames.length) onChange(merged);
+    } catch (err) {
+      console.error("Error merging duplicate frames:", err);
+      alert(`Error merging duplicate frames: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  const numberInput = (value: number, onValue: (v: number) => void, title: string, min = 1) => (
+    <input
+      type="number"
+      className="frame-delay-input"
+      style={{width: '56px'}}
+      min={min}
+      value={value}
+      title={title}
+      onChange={(e) => onValue(Math.max(min, parseInt(e.target.value) || min))}
+    />
+  );
+
+  return (
+    <div className="sequence-panel">
+      <div className="control-group">
+        <button className="btn-icon-small" onClick={() => onChange(reverseFrames(frames))} disabled={frames.length < 2} title="Reverse the frame order">
+          <ArrowDownUp size={14} />
+        </button>
+        <button className="btn-icon-small" onClick={() => onChange(pingPongFrames(frames))} disabled={frames.length < 3} title="Append a backwards copy (ping-pong / boomerang)">
+          <ArrowLeftRight size={14} />
+        </button>
+        <button
+          className="btn-icon-small"
+          onClick={() => onChange(duplicateFrames(frames, selectedIds))}
+          disabled={selectedCount === 0}
+          title={`Duplicate the selected frames (${selectedCount})`}
+        >
+          <Copy size={14} />
+        </button>
+      </div>
+
+      <div className="control-group">
+        <Repeat size={16} />
+        <label>Repeat</label>
+        {numberInput(start, setRangeStart, 'First frame of the range')}
+        <span>–</span>
+        {numberInput(end, setRangeEnd, 'Last frame of the range')}
+        <span>×</span>
+        {numberInput(repeatTimes, v => setRepeatTimes(Math.min(v, 100)), 'Total number of times the range plays', 2)}
+        <button className="btn-icon-small" onClick={() => onChange(repeatRange(frames, start - 1, end - 1, repeatTimes))} title="Repeat the range">
+          <Plus size={14} />
+        </button>
+      </div>
+
+      <div className="control-group">
+        <Combine size={16} />
+        <label title="Merge consecutive frames that look the same, adding up their delays">Merge duplicates</label>
+        <input
+          type="range"
+          min="0.9"
+          max="1"
+          step="0.001"
+          value={threshold}
+          onChange={(e) => setThreshold(parseFloat(e.target.value))}
+          title="Similarity threshold (100% minus the changed share of the most changed 16 px block)"
+        />
+        <span className="value-badge">{(threshold * 100).toFixed(1)}%</span>
+        <button className="btn-icon-small" onClick={handleMerge} disabled={isMerging || frames.length < 2} title="Merge consecutive near-identical frames">
+          {isMerging ? <span className="loading-spinner" style={{width: '14px', height: '14px'}}></span> : <Combine size={14} />}
+        </button>
+        {mergedCount !== null && (
+          <span className="value-badge" title="Frames removed by the last merge">−{mergedCount}</span>
+        )}
+      </div>
+    </div>
+  );
+};
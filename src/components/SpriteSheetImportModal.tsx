@@ -0,0 +1,204 @@
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { X, LayoutGrid, FileJson } from 'lucide-react';
+import { GridOptions, SpriteRect, gridRects, parseAtlas, sliceSprite, isEmptySprite } from '../utils/sprite-sheet';
+
+export interface SlicedSprite {
+  imageData: ImageData;
+  delay: number;
+  name: string;
+}
+
+interface SpriteSheetImportModalProps {
+  image: File;
+  atlas: File | null; // JSON atlas dropped together with the sheet
+  defaultDelay: number;
+  onImport: (sprites: SlicedSprite[]) => Promise<void>;
+  onClose: () => void;
+}
+
+const PREVIEW_MAX = { width: 600, height: 340 };
+
+// Slices a sprite sheet into frames by a grid or by a TexturePacker / Aseprite JSON atlas
+export const SpriteSheetImportModal: React.FC<SpriteSheetImportModalProps> = ({ image, atlas, defaultDelay, onImport, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const atlasInputRef = useRef<HTMLInputElement>(null);
+  const [sheet, setSheet] = useState<ImageBitmap | null>(null);
+  const [mode, setMode] = useState<'grid' | 'atlas'>(atlas ? 'atlas' : 'grid');
+  const [grid, setGrid] = useState<GridOptions>({ columns: 4, rows: 4, margin: 0, spacing: 0 });
+  const [atlasText, setAtlasText] = useState<string | null>(null);
+  const [atlasName, setAtlasName] = useState<string | null>(null);
+  const [skipEmpty, setSkipEmpty] = useState(true);
+  const [isImporting, setIsImporting] = useState(false);
+
+  useEffect(() => {
+    document.body.classList.add('modal-open');
+    return () => document.body.classList.remove('modal-open');
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    let bitmap: ImageBitmap | null = null;
+    createImageBitmap(image).then(b => {
+      // Decoded after the modal closed or the image changed
+      if (cancelled) {
+        b.close();
+        return;
+      }
+      bitmap = b;
+      setSheet(b);
+    }).catch(err => console.error(`Could not decode ${image.name}:`, err));
+    return () => {
+      cancelled = true;
+      bitmap?.close();
+    };
+  }, [image]);
+
+  const loadAtlas = async (file: File) => {
+    setAtlasText(await file.text());
+    setAtlasName(file.name);
+    setMode('atlas');
+  };
+
+  useEffect(() => {
+    if (atlas) loadAtlas(atlas);
+  }, [atlas]);
+
+  // Rectangles for the current mode, or the reason there are none
+  const { rects, error } = useMemo((): { rects: SpriteRect[]; error: string | null } => {
+    if (!sheet) return { rects: [], error: null };
+    try {
+      if (mode === 'grid') return { rects: gridRects(sheet.width, sheet.height, grid), error: null };
+      if (!atlasText) return { rects: [], error: 'Choose a JSON atlas file' };
+      return { rects: parseAtlas(atlasText), error: null };
+    } catch (err) {
+      return { rects: [], error: err instanceof Error ? err.message : String(err) };
+    }
+  }, [sheet, mode, grid, atlasText]);
+
+  useEffect(() => {
+    const view = canvasRef.current;
+    if (!view || !sheet) return;
+    const ctx = view.getContext('2d');
+    if (!ctx) return;
+    const k = Math.min(1, PREVIEW_MAX.width / sheet.width, PREVIEW_MAX.height / sheet.height);
+    view.width = Math.round(sheet.width * k);
+    view.height = Math.round(sheet.height * k);
+    ctx.imageSmoothingEnabled = k < 1;
+    ctx.drawImage(sheet, 0, 0, view.width, view.height);
+
+    ctx.strokeStyle = '#4c6ef5';
+    ctx.fillStyle = '#4c6ef5';
+    ctx.lineWidth = 1;
+    ctx.font = '10px monospace';
+    rects.forEach((r, i) => {
+      const w = r.rotated ? r.height : r.width;
+      const h = r.rotated ? r.width : r.height;
+      ctx.strokeRect(r.x * k + 0.5, r.y * k + 0.5, w * k - 1, h * k - 1);
+      ctx.fillText(String(i + 1), r.x * k + 3, r.y * k + 11);
+    });
+  }, [sheet, rects]);
+
+  const handleImport = async () => {
+    if (!sheet) return;
+    setIsImporting(true);
+    try {
+      const sprites: SlicedSprite[] = [];
+      for (const rect of rects) {
+        const imageData = sliceSprite(sheet, rect);
+        if (skipEmpty && isEmptySprite(imageData)) continue;
+        sprites.push({ imageData, delay: rect.duration ?? defaultDelay, name: rect.name.replace(/\.\w+$/, '') + '.png' });
+      }
+      await onImport(sprites);
+    } catch (err) {
+      console.error(`Error slicing ${image.name}:`, err);
+      alert(`Error slicing ${image.name}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const gridInput = (key: keyof GridOptions, label: string, min: number) => (
+    <>
+      <label>{label}</label>
+      <input
+        type="number"
+        className="frame-delay-input"
+        style={{width: '56px'}}
+        min={min}
+        value={grid[key]}
+        onChange={(e) => setGrid(prev => ({ ...prev, [key]: Math.max(min, parseInt(e.target.value) || 0) }))}
+      />
+    </>
+  );
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content" style={{maxWidth: '680px', height: 'auto'}} onClick={e => e.stopPropagation()}>
+        <div className="modal-header">
+          <h3>Import Sprite Sheet · {image.name}</h3>
+          <button className="close-modal-btn" onClick={onClose}><X size={24} /></button>
+        </div>
+
+        <div className="canvas-wrapper" style={{flex: 'none', minHeight: '200px', padding: '0.5rem'}}>
+          {sheet ? <canvas ref={canvasRef} /> : <span className="loading-spinner"></span>}
+        </div>
+
+        <div className="modal-footer">
+          <div className="control-row">
+            <div className="slider-group">
+              <button className={`btn ${mode === 'grid' ? 'btn-primary' : 'btn-secondary'}`} onClick={() => setMode('grid')}>
+                <LayoutGrid size={16} /> Grid
+              </button>
+              <button className={`btn ${mode === 'atlas' ? 'btn-primary' : 'btn-secondary'}`} onClick={() => atlasText ? setMode('atlas') : atlasInputRef.current?.click()}>
+                <FileJson size={16} /> JSON Atlas
+              </button>
+              <input
+                type="file"
+                ref={atlasInputRef}
+                className="file-input"
+                accept=".json,application/json"
+                onChange={(e) => e.target.files?.[0] && loadAtlas(e.target.files[0])}
+              />
+              {mode === 'atlas' && (
+                <button className="btn-icon-small" onClick={() => atlasInputRef.current?.click()} title="Choose another atlas file" style={{width: 'auto', padding: '0 0.5rem'}}>
+                  {atlasName ?? 'Choose…'}
+                </button>
+              )}
+            </div>
+          </div>
+
+          {mode === 'grid' && (
+            <div className="control-row">
+              <div className="slider-group">
+                {gridInput('columns', 'Columns', 1)}
+                {gridInput('rows', 'Rows', 1)}
+                {gridInput('margin', 'Margin', 0)}
+                {gridInput('spacing', 'Spacing', 0)}
+              </div>
+            </div>
+          )}
+
+          <div className="control-row">
+            <div className="slider-group">
+              <label style={{whiteSpace: 'nowrap'}}>
+                <input type="checkbox" checked={skipEmpty} onChange={(e) => setSkipEmpty(e.target.checked)} /> Skip empty cells
+              </label>
+              <div style={{flex: 1}}></div>
+              <span className="value-badge" style={{color: error ? 'var(--danger-color)' : undefined}}>
+                {error ?? `${rects.length} sprites${rects[0] ? ` · ${rects[0].sourceWidth}×${rects[0].sourceHeight}` : ''}`}
+              </span>
+            </div>
+          </div>
+
+          <div className="button-group" style={{marginTop: '1rem'}}>
+            <div style={{flex: 1}}></div>
+            <button className="btn btn-secondary" onClick={onClose}>Cancel</button>
+            <button className="btn btn-primary" onClick={handleImport} disabled={isImporting || rects.length === 0}>
+              {isImporting ? <span className="loading-spinner" style={{width: '18px', height: '18px'}}></span> : 'Import Frames'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
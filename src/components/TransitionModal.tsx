@@ -0,0 +1,155 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { X, Blend, Clock } from 'lucide-react';
+import { Frame } from '../types';
+import { ease, Easing, EASINGS } from '../utils/keyframes';
+import {
+  TransitionOptions, TransitionType, TransitionDirection, TRANSITIONS, TRANSITION_DIRECTIONS,
+  transitionLayers, drawTransition, transitionDelays
+} from '../utils/transitions';
+
+interface TransitionModalProps {
+  from: Frame;
+  to: Frame;
+  canvasWidth: number;
+  canvasHeight: number;
+  onInsert: (fromId: string, options: TransitionOptions) => Promise<void>;
+  onClose: () => void;
+}
+
+const PREVIEW_HOLD = 400; // ms the preview rests on each end frame
+
+// Options for the frames generated between two neighbours, with a looping preview
+export const TransitionModal: React.FC<TransitionModalProps> = ({ from, to, canvasWidth, canvasHeight, onInsert, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [layers, setLayers] = useState<ReturnType<typeof transitionLayers> | null>(null);
+  const [type, setType] = useState<TransitionType>('crossfade');
+  const [direction, setDirection] = useState<TransitionDirection>('left');
+  const [count, setCount] = useState(8);
+  const [duration, setDuration] = useState(500);
+  const [easing, setEasing] = useState<Easing>('ease-in-out');
+  const [isInserting, setIsInserting] = useState(false);
+
+  const delays = transitionDelays(duration, count);
+
+  useEffect(() => {
+    document.body.classList.add('modal-open');
+    return () => document.body.classList.remove('modal-open');
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([createImageBitmap(from.file), createImageBitmap(to.file)]).then(([a, b]) => {
+      if (!cancelled) setLayers(transitionLayers(a, from, b, to, canvasWidth, canvasHeight));
+      a.close();
+      b.close();
+    });
+    return () => { cancelled = true; };
+  }, [from, to, canvasWidth, canvasHeight]);
+
+  // Preview: hold, transition, hold, repeat
+  useEffect(() => {
+    const view = canvasRef.current;
+    if (!view || !layers) return;
+    const ctx = view.getContext('2d');
+    if (!ctx) return;
+    view.width = canvasWidth;
+    view.height = canvasHeight;
+    let raf = 0;
+    const began = performance.now();
+    const tick = (now: number) => {
+      const cycle = (now - began) % (duration + PREVIEW_HOLD * 2);
+      const t = Math.max(0, Math.min(1, (cycle - PREVIEW_HOLD) / duration));
+      drawTransition(ctx, layers, type, direction, ease(t, easing));
+      raf = requestAnimationFrame(tick);
+    };
+    raf = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(raf);
+  }, [layers, type, direction, duration, easing, canvasWidth, canvasHeight]);
+
+  const handleInsert = async () => {
+    setIsInserting(true);
+    try {
+      await onInsert(from.id, { type, direction, count, duration, easing });
+    } finally {
+      setIsInserting(false);
+    }
+  };
+
+  const directional = type === 'slide' || type === 'wipe';
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content" style={{maxWidth: '640px', height: 'auto'}} onClick={e => e.stopPropagation()}>
+        <div className="modal-header">
+          <h3>Insert Transition</h3>
+          <button className="close-modal-btn" onClick={onClose}><X size={24} /></button>
+        </div>
+
+        <div className="canvas-wrapper" style={{flex: 'none', height: '300px'}}>
+          <canvas ref={canvasRef} className="preview-canvas" style={{maxHeight: '280px'}} />
+        </div>
+
+        <div className="modal-footer">
+          <div className="control-row">
+            <div className="slider-group">
+              <Blend size={18} />
+              <label>Type</label>
+              <select value={type} onChange={(e) => setType(e.target.value as TransitionType)} className="frame-delay-input" style={{width: 'auto'}}>
+                {TRANSITIONS.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+              </select>
+              <select
+                value={direction}
+                onChange={(e) => setDirection(e.target.value as TransitionDirection)}
+                className="frame-delay-input"
+                style={{width: 'auto'}}
+                disabled={!directional}
+                title="Slide / wipe direction"
+              >
+                {TRANSITION_DIRECTIONS.map(d => <option key={d.value} value={d.value}>{d.label}</option>)}
+              </select>
+              <select value={easing} onChange={(e) => setEasing(e.target.value as Easing)} className="frame-delay-input" style={{width: 'auto'}}>
+                {EASINGS.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+              </select>
+            </div>
+          </div>
+
+          <div className="control-row">
+            <div className="slider-group">
+              <Clock size={18} />
+              <label>Frames</label>
+              <input
+                type="number"
+                className="frame-delay-input"
+                style={{width: '60px'}}
+                min="1"
+                max="120"
+                value={count}
+                onChange={(e) => setCount(Math.max(1, Math.min(120, parseInt(e.target.value) || 0)))}
+              />
+              <label title="Total duration, split into the generated frames' delays">Duration (ms)</label>
+              <input
+                type="number"
+                className="frame-delay-input"
+                style={{width: '80px'}}
+                min="10"
+                value={duration}
+                onChange={(e) => setDuration(Math.max(10, Math.min(60000, parseInt(e.target.value) || 0)))}
+              />
+              <span className="value-badge" style={{minWidth: '90px'}}>
+                {Math.min(...delays) === Math.max(...delays) ? `${delays[0]} ms each` : `${Math.min(...delays)}–${Math.max(...delays)} ms`}
+              </span>
+            </div>
+          </div>
+
+          <div className="button-group" style={{marginTop: '1rem'}}>
+            <div style={{flex: 1}}></div>
+            <button className="btn btn-secondary" onClick={onClose}>Cancel</button>
+            <button className="btn btn-primary" onClick={handleInsert} disabled={isInserting || !layers}>
+              {isInserting ? <span className="loading-spinner" style={{width: '18px', height: '18px'}}></span> : `Insert ${count} Frames`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,29 @@
+import { useState, useEffect } from 'react';
+
+// Decoded background fill image; the previous bitmap is released when the file changes
+export function useBackgroundImage(file: File | null) {
+  const [bitmap, setBitmap] = useState<ImageBitmap | null>(null);
+
+  useEffect(() => {
+    if (!file) return;
+    let cancelled = false;
+    let decoded: ImageBitmap | null = null;
+    createImageBitmap(file).then(result => {
+      if (cancelled) {
+        result.close();
+        return;
+      }
+      decoded = result;
+      setBitmap(result);
+    }).catch(err => {
+      console.error(`Could not decode background ${file.name}:`, err);
+    });
+    return () => {
+      cancelled = true;
+      decoded?.close();
+      setBitmap(null);
+    };
+  }, [file]);
+
+  return bitmap;
+}
@@ -0,0 +1,83 @@
+import { useState, useCallback } from 'react';
+
+const MAX_HISTORY = 100;
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  mergeKey: string | null; // Key of the step currently open for merging
+}
+
+type Updater<T> = T | ((prev: T) => T);
+
+/**
+ * useState with an undo/redo stack.
+ * Every set() is one undo step, except consecutive sets sharing a mergeKey
+ * (drag reordering, typing into a delay field) which collapse into a single step
+ * until checkpoint() is called or a different kind of edit happens.
+ */
+export function useHistory<T>(initial: T) {
+  const [history, setHistory] = useState<HistoryState<T>>({ past: [], present: initial, future: [], mergeKey: null });
+
+  const set = useCallback((updater: Updater<T>, mergeKey?: string) => {
+    setHistory(h => {
+      const next = typeof updater === 'function' ? (updater as (prev: T) => T)(h.present) : updater;
+      if (Object.is(next, h.present)) return h;
+      if (mergeKey && mergeKey === h.mergeKey) {
+        return { ...h, present: next, future: [] };
+      }
+      return {
+        past: [...h.past, h.present].slice(-MAX_HISTORY),
+        present: next,
+        future: [],
+        mergeKey: mergeKey ?? null
+      };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(h => {
+      if (h.past.length === 0) return h;
+      return {
+        past: h.past.slice(0, -1),
+        present: h.past[h.past.length - 1],
+        future: [h.present, ...h.future],
+        mergeKey: null
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(h => {
+      if (h.future.length === 0) return h;
+      return {
+        past: [...h.past, h.present],
+        present: h.future[0],
+        future: h.future.slice(1),
+        mergeKey: null
+      };
+    });
+  }, []);
+
+  // Closes the current merge group so the next edit starts a new undo step
+  const checkpoint = useCallback(() => {
+    setHistory(h => h.mergeKey === null ? h : { ...h, mergeKey: null });
+  }, []);
+
+  // Replaces the value and drops all history (e.g. when a project is opened)
+  const reset = useCallback((value: T) => {
+    setHistory({ past: [], present: value, future: [], mergeKey: null });
+  }, []);
+
+  return {
+    present: history.present,
+    set,
+    undo,
+    redo,
+    checkpoint,
+    reset,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0
+  };
+}
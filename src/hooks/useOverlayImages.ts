@@ -0,0 +1,52 @@
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { Overlay } from '../utils/overlays';
+
+/**
+ * Decoded image stamps by overlay id. Each file is decoded once, so editing an overlay's
+ * position or text doesn't decode the images again; removed stamps are released.
+ */
+export function useOverlayImages(overlays: Overlay[]) {
+  const cacheRef = useRef(new Map<File, ImageBitmap>());
+  const pendingRef = useRef(new Set<File>());
+  const [loadedCount, setLoadedCount] = useState(0);
+
+  useEffect(() => {
+    const cache = cacheRef.current;
+    const files = new Set(overlays.flatMap(o => o.kind === 'image' ? [o.file] : []));
+    for (const [file, bitmap] of cache) {
+      if (!files.has(file)) {
+        bitmap.close();
+        cache.delete(file);
+      }
+    }
+    for (const file of files) {
+      if (cache.has(file) || pendingRef.current.has(file)) continue;
+      pendingRef.current.add(file);
+      createImageBitmap(file).then(bitmap => {
+        pendingRef.current.delete(file);
+        cache.set(file, bitmap);
+        setLoadedCount(c => c + 1);
+      }).catch(err => {
+        pendingRef.current.delete(file);
+        console.error(`Could not decode overlay ${file.name}:`, err);
+      });
+    }
+  }, [overlays]);
+
+  useEffect(() => {
+    const cache = cacheRef.current;
+    return () => {
+      cache.forEach(bitmap => bitmap.close());
+      cache.clear();
+    };
+  }, []);
+
+  return useMemo(() => {
+    const images = new Map<string, ImageBitmap>();
+    for (const overlay of overlays) {
+      const bitmap = overlay.kind === 'image' ? cacheRef.current.get(overlay.file) : undefined;
+      if (bitmap) images.set(overlay.id, bitmap);
+    }
+    return images;
+  }, [overlays, loadedCount]);
+}
@@ -0,0 +1,12 @@
+import { FrameTransform, FrameAdjustments } from './utils/render';
+
+export interface Frame extends FrameTransform, FrameAdjustments {
+  id: string;
+  file: File;
+  previewUrl: string;
+  delay: number;
+  width: number;
+  height: number;
+  fileSize: number;
+  fileType: string;
+}
@@ -0,0 +1,57 @@
+import { buildPalette, applyPalette, DitherMode } from './quantize';
+
+export interface ApngOptions {
+  colors: number; // Palette size, 0 = lossless truecolor
+  dither: DitherMode;
+  globalPalette: boolean; // One palette for every frame, stored as an indexed PNG
+}
+
+export const APNG_COLOR_CHOICES = [0, 256, 128, 64, 32, 16, 8, 4, 2];
+
+// Pixels below this alpha become fully transparent, the rest opaque
+const ALPHA_THRESHOLD = 128;
+
+// Stable key of an option set, lossless ignores dithering and palette sharing
+export function apngOptionsKey({ colors, dither, globalPalette }: ApngOptions) {
+  return colors === 0 ? 'lossless' : `${colors}/${dither}/${globalPalette ? 'global' : 'local'}`;
+}
+
+/**
+ * Reduces RGBA frames to at most `colors` colours in place, before handing them to upng-js
+ * with cnum 0 so it stores the result losslessly.
+ * A global palette keeps the whole animation under 256 colours, which upng-js writes as an
+ * indexed PNG with a single PLTE; APNG has no per-frame palettes, so with one palette per frame
+ * the frames stay truecolor and only gain from the fewer distinct colours.
+ * Quantized frames use 1-bit transparency, like GIF.
+ */
+export function quantizeFrames(
+  buffers: ArrayBuffer[],
+  width: number,
+  height: number,
+  { colors, dither, globalPalette }: ApngOptions,
+  onFrame?: (index: number) => void
+) {
+  if (colors === 0) return;
+  const frames = buffers.map(b => new Uint8Array(b));
+  // upng-js always reserves one palette entry for transparent black
+  const maxColors = Math.max(2, Math.min(colors, 255));
+  const shared = globalPalette ? buildPalette(frames, maxColors, ALPHA_THRESHOLD) : null;
+
+  frames.forEach((data, f) => {
+    const palette = shared ?? buildPalette(data, maxColors, ALPHA_THRESHOLD);
+    const transparentIndex = palette.length / 3;
+    const indices = applyPalette(data, width, height, palette, { dither, alphaThreshold: ALPHA_THRESHOLD, transparentIndex });
+    for (let p = 0, i = 0; p < indices.length; p++, i += 4) {
+      const idx = indices[p];
+      if (idx === transparentIndex) {
+        data[i] = data[i + 1] = data[i + 2] = data[i + 3] = 0;
+      } else {
+        data[i] = palette[idx * 3];
+        data[i + 1] = palette[idx * 3 + 1];
+        data[i + 2] = palette[idx * 3 + 2];
+        data[i + 3] = 255;
+      }
+    }
+    onFrame?.(f);
+  });
+}
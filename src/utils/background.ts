@@ -0,0 +1,43 @@
+import { CanvasSettings, outputSize } from './render';
+
+// Animation-wide fill composited under every frame, so frames that don't cover the canvas
+// (or carry alpha) still export fully opaque
+export type BackgroundMode = 'transparent' | 'color' | 'image';
+
+export interface BackgroundFill {
+  mode: BackgroundMode;
+  color: string; // CSS colour for 'color'
+  image: File | null; // Covers the composition canvas for 'image'
+}
+
+export const BACKGROUND_MODES: { value: BackgroundMode; label: string }[] = [
+  { value: 'transparent', label: 'Transparent' },
+  { value: 'color', label: 'Colour' },
+  { value: 'image', label: 'Image' }
+];
+
+/**
+ * Fills everything under what is already drawn on an output frame (frame + overlays).
+ * The image is scaled to cover the composition canvas, then cropped and scaled like the frames.
+ */
+export function renderBackground(
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  fill: BackgroundFill,
+  image: ImageBitmap | null,
+  canvas: CanvasSettings
+) {
+  if (fill.mode === 'transparent' || (fill.mode === 'image' && !image)) return;
+  ctx.save();
+  ctx.globalCompositeOperation = 'destination-over';
+  if (fill.mode === 'image' && image) {
+    ctx.scale(canvas.scale, canvas.scale);
+    ctx.translate(-canvas.crop.x, -canvas.crop.y);
+    const k = Math.max(canvas.width / image.width, canvas.height / image.height);
+    ctx.drawImage(image, (canvas.width - image.width * k) / 2, (canvas.height - image.height * k) / 2, image.width * k, image.height * k);
+  } else {
+    const out = outputSize(canvas);
+    ctx.fillStyle = fill.color;
+    ctx.fillRect(0, 0, out.width, out.height);
+  }
+  ctx.restore();
+}
@@ -0,0 +1,43 @@
+// Turns one colour of a source image transparent (green screen, solid screenshot backgrounds)
+
+export interface ChromaKey {
+  color: string; // #rrggbb
+  tolerance: number; // 0-1, colour distance that is removed completely
+  feather: number; // 0-1, distance over which alpha ramps back up to opaque
+}
+
+export const DEFAULT_CHROMA_KEY: ChromaKey = { color: '#00ff00', tolerance: 0.15, feather: 0.1 };
+
+// Largest RGB distance (black to white)
+const MAX_DISTANCE = Math.sqrt(3 * 255 * 255);
+
+export function applyChromaKey(data: Uint8ClampedArray, { color, tolerance, feather }: ChromaKey) {
+  const n = parseInt(color.replace('#', ''), 16);
+  const kr = (n >> 16) & 255, kg = (n >> 8) & 255, kb = n & 255;
+  for (let i = 0; i < data.length; i += 4) {
+    const dr = data[i] - kr, dg = data[i + 1] - kg, db = data[i + 2] - kb;
+    const d = Math.sqrt(dr * dr + dg * dg + db * db) / MAX_DISTANCE;
+    if (d >= tolerance + feather) continue;
+    const keep = d <= tolerance ? 0 : (d - tolerance) / feather;
+    data[i + 3] = Math.round(data[i + 3] * keep);
+  }
+}
+
+// Keyed copy of the last image/key pair per source, so playback and re-renders don't redo the pixel pass
+const cache = new WeakMap<object, { key: string; canvas: OffscreenCanvas }>();
+
+export function keyedSource(img: CanvasImageSource & { width: number; height: number }, chromaKey: ChromaKey): OffscreenCanvas {
+  const key = `${chromaKey.color}/${chromaKey.tolerance}/${chromaKey.feather}`;
+  const cached = cache.get(img);
+  if (cached?.key === key) return cached.canvas;
+
+  const canvas = new OffscreenCanvas(img.width, img.height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Could not get canvas context');
+  ctx.drawImage(img, 0, 0);
+  const imageData = ctx.getImageData(0, 0, img.width, img.height);
+  applyChromaKey(imageData.data, chromaKey);
+  ctx.putImageData(imageData, 0, 0);
+  cache.set(img, { key, canvas });
+  return canvas;
+}
@@ -0,0 +1,60 @@
+import { FrameTransform } from './render';
+
+export type FitMode = 'cover' | 'contain' | 'fit-width' | 'fit-height' | 'stretch';
+
+// Horizontal / vertical anchor: 0 = left/top, 0.5 = center, 1 = right/bottom
+export type Anchor = [number, number];
+
+export const FIT_MODES: { value: FitMode; label: string }[] = [
+  { value: 'cover', label: 'Cover' },
+  { value: 'contain', label: 'Contain' },
+  { value: 'fit-width', label: 'Fit Width' },
+  { value: 'fit-height', label: 'Fit Height' },
+  { value: 'stretch', label: 'Stretch' }
+];
+
+/**
+ * Scale and offset that fit a source image into a width x height canvas.
+ * The frame's current rotation is kept; uniform modes fit its rotated bounding box.
+ * The anchor pins the scaled box to a corner, edge or the center of the canvas.
+ */
+export function fitTransform(
+  srcWidth: number,
+  srcHeight: number,
+  rotation: number,
+  width: number,
+  height: number,
+  mode: FitMode,
+  anchor: Anchor
+): Pick<FrameTransform, 'offsetX' | 'offsetY' | 'scale' | 'scaleY'> {
+  const rad = (rotation * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(rad)), sin = Math.abs(Math.sin(rad));
+
+  let scaleX: number, scaleY: number, boxW: number, boxH: number;
+  if (mode === 'stretch') {
+    // Non-uniform scale acts along the image axes, so quarter turns swap the target sides
+    const quarterTurn = sin > cos;
+    scaleX = (quarterTurn ? height : width) / srcWidth;
+    scaleY = (quarterTurn ? width : height) / srcHeight;
+    boxW = width;
+    boxH = height;
+  } else {
+    const rotW = srcWidth * cos + srcHeight * sin;
+    const rotH = srcWidth * sin + srcHeight * cos;
+    const sx = width / rotW, sy = height / rotH;
+    const s = mode === 'cover' ? Math.max(sx, sy)
+      : mode === 'contain' ? Math.min(sx, sy)
+      : mode === 'fit-width' ? sx
+      : sy;
+    scaleX = scaleY = s;
+    boxW = rotW * s;
+    boxH = rotH * s;
+  }
+
+  return {
+    offsetX: parseFloat(((anchor[0] - 0.5) * (width - boxW)).toFixed(2)),
+    offsetY: parseFloat(((anchor[1] - 0.5) * (height - boxH)).toFixed(2)),
+    scale: parseFloat(scaleX.toFixed(4)),
+    scaleY: mode === 'stretch' ? parseFloat(scaleY.toFixed(4)) : undefined
+  };
+}
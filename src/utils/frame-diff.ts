@@ -0,0 +1,86 @@
+export interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Bounding box of the pixels that differ between two RGBA buffers of the same size.
+ * Returns null when the frames are identical.
+ */
+export function findChangedRegion(
+  prev: Uint8ClampedArray,
+  cur: Uint8ClampedArray,
+  width: number,
+  height: number
+): Region | null {
+  const a = new Uint32Array(prev.buffer, prev.byteOffset, width * height);
+  const b = new Uint32Array(cur.buffer, cur.byteOffset, width * height);
+
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    for (let x = 0; x < width; x++) {
+      if (a[row + x] !== b[row + x]) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+    }
+  }
+  if (maxX === -1) return null;
+  return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+}
+
+// Moves the region's origin down to even coordinates (WebP stores ANMF offsets / 2),
+// growing it so the original area stays covered.
+export function alignRegion(region: Region): Region {
+  const x = region.x - (region.x % 2);
+  const y = region.y - (region.y % 2);
+  return {
+    x,
+    y,
+    width: region.width + (region.x - x),
+    height: region.height + (region.y - y)
+  };
+}
+
+// Side of the square blocks frameSimilarity scores separately
+const SIMILARITY_BLOCK = 16;
+// Per-channel difference treated as noise (JPEG / screen recording artefacts), not change
+const NOISE_TOLERANCE = 24;
+
+/**
+ * Similarity of two width x height RGBA buffers: 1 = identical, 0 = maximally different.
+ * A pixel counts as changed when any channel differs by more than NOISE_TOLERANCE; the score is
+ * 1 minus the changed fraction of the worst 16 px block, so a blinking caret or a small moving
+ * detail is not averaged away over the whole frame while noise alone still scores 1.
+ */
+export function frameSimilarity(a: Uint8ClampedArray, b: Uint8ClampedArray, width: number, height: number): number {
+  const cols = Math.ceil(width / SIMILARITY_BLOCK);
+  const rows = Math.ceil(height / SIMILARITY_BLOCK);
+  const changed = new Uint32Array(cols * rows);
+  for (let y = 0; y < height; y++) {
+    const blockRow = Math.floor(y / SIMILARITY_BLOCK) * cols;
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      if (Math.abs(a[i] - b[i]) > NOISE_TOLERANCE || Math.abs(a[i + 1] - b[i + 1]) > NOISE_TOLERANCE ||
+          Math.abs(a[i + 2] - b[i + 2]) > NOISE_TOLERANCE || Math.abs(a[i + 3] - b[i + 3]) > NOISE_TOLERANCE) {
+        changed[blockRow + Math.floor(x / SIMILARITY_BLOCK)]++;
+      }
+    }
+  }
+
+  let worst = 0;
+  for (let row = 0; row < rows; row++) {
+    // Blocks on the right and bottom edges can be smaller
+    const blockHeight = Math.min(SIMILARITY_BLOCK, height - row * SIMILARITY_BLOCK);
+    for (let col = 0; col < cols; col++) {
+      const blockWidth = Math.min(SIMILARITY_BLOCK, width - col * SIMILARITY_BLOCK);
+      worst = Math.max(worst, changed[row * cols + col] / (blockWidth * blockHeight));
+    }
+  }
+  return 1 - worst;
+}
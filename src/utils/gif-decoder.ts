@@ -0,0 +1,238 @@
+import type { DecodedAnimation, DecodedFrame } from './webp-demuxer';
+
+// Checks the 6-byte GIF signature
+export async function isGIF(file: Blob): Promise<boolean> {
+  const bytes = new Uint8Array(await file.slice(0, 6).arrayBuffer());
+  const sig = String.fromCharCode(...bytes);
+  return sig === 'GIF87a' || sig === 'GIF89a';
+}
+
+// Decodes the variable-length-code LZW stream of one image into palette indices
+function lzwDecode(data: Uint8Array, minCodeSize: number, pixelCount: number): Uint8Array {
+  const out = new Uint8Array(pixelCount);
+  const clearCode = 1 << minCodeSize;
+  const eoiCode = clearCode + 1;
+
+  const prefix = new Int16Array(4096);
+  const suffix = new Uint8Array(4096);
+  const stack = new Uint8Array(4097);
+
+  let codeSize = minCodeSize + 1;
+  let codeMask = (1 << codeSize) - 1;
+  let available = clearCode + 2;
+  let oldCode = -1;
+  let first = 0;
+
+  for (let i = 0; i < clearCode; i++) {
+    prefix[i] = -1;
+    suffix[i] = i;
+  }
+
+  let bitBuf = 0;
+  let bitCount = 0;
+  let pos = 0;
+  let outPos = 0;
+
+  while (outPos < pixelCount) {
+    while (bitCount < codeSize) {
+      if (pos >= data.length) return out; // Truncated data: keep what we have
+      bitBuf |= data[pos++] << bitCount;
+      bitCount += 8;
+    }
+    const code = bitBuf & codeMask;
+    bitBuf >>= codeSize;
+    bitCount -= codeSize;
+
+    if (code === clearCode) {
+      codeSize = minCodeSize + 1;
+      codeMask = (1 << codeSize) - 1;
+      available = clearCode + 2;
+      oldCode = -1;
+      continue;
+    }
+    if (code === eoiCode) break;
+
+    if (oldCode === -1) {
+      out[outPos++] = suffix[code];
+      oldCode = code;
+      first = code;
+      continue;
+    }
+
+    let inCode = code;
+    let top = 0;
+    if (code >= available) {
+      // KwKwK case: the code being defined right now
+      stack[top++] = first;
+      inCode = oldCode;
+    }
+    while (inCode >= clearCode) {
+      stack[top++] = suffix[inCode];
+      inCode = prefix[inCode];
+    }
+    first = suffix[inCode];
+    stack[top++] = first;
+
+    if (available < 4096) {
+      prefix[available] = oldCode;
+      suffix[available] = first;
+      available++;
+      if ((available & codeMask) === 0 && available < 4096) {
+        codeSize++;
+        codeMask += available;
+      }
+    }
+    oldCode = code;
+
+    while (top > 0 && outPos < pixelCount) out[outPos++] = stack[--top];
+  }
+  return out;
+}
+
+// Maps interlaced row order (passes 0/8, 4/8, 2/4, 1/2) back to sequential rows
+function deinterlace(indices: Uint8Array, width: number, height: number): Uint8Array {
+  const out = new Uint8Array(indices.length);
+  const passes = [[0, 8], [4, 8], [2, 4], [1, 2]];
+  let row = 0;
+  for (const [start, step] of passes) {
+    for (let y = start; y < height; y += step) {
+      out.set(indices.subarray(row * width, (row + 1) * width), y * width);
+      row++;
+    }
+  }
+  return out;
+}
+
+/**
+ * Decodes a GIF87a/GIF89a file into fully composited RGBA frames.
+ * Disposal methods: 0/1 leave the frame in place, 2 restores the frame
+ * rectangle to transparent background, 3 restores the previous canvas.
+ */
+export function decodeGIF(buffer: ArrayBuffer): DecodedAnimation {
+  const bytes = new Uint8Array(buffer);
+  const sig = String.fromCharCode(...bytes.slice(0, 6));
+  if (sig !== 'GIF87a' && sig !== 'GIF89a') throw new Error('Not a GIF file');
+
+  const u16 = (o: number) => bytes[o] | (bytes[o + 1] << 8);
+
+  // Logical Screen Descriptor
+  const width = u16(6);
+  const height = u16(8);
+  const packed = bytes[10];
+  let pos = 13;
+  let globalPalette: Uint8Array | null = null;
+  if (packed & 0x80) {
+    const size = 3 * (1 << ((packed & 0x07) + 1));
+    globalPalette = bytes.slice(pos, pos + size);
+    pos += size;
+  }
+
+  const canvas = new Uint8ClampedArray(width * height * 4);
+  const frames: DecodedFrame[] = [];
+  let loopCount = 1; // No NETSCAPE extension = play once
+
+  // Graphic Control Extension state, applies to the next image only
+  let delay = 0;
+  let disposal = 0;
+  let transparentIndex = -1;
+
+  const readSubBlocks = () => {
+    const parts: Uint8Array[] = [];
+    let total = 0;
+    while (pos < bytes.length) {
+      const len = bytes[pos++];
+      if (len === 0) break;
+      parts.push(bytes.subarray(pos, pos + len));
+      total += len;
+      pos += len;
+    }
+    const data = new Uint8Array(total);
+    let offset = 0;
+    for (const p of parts) { data.set(p, offset); offset += p.length; }
+    return data;
+  };
+
+  while (pos < bytes.length) {
+    const block = bytes[pos++];
+
+    if (block === 0x3b) break; // Trailer
+
+    if (block === 0x21) {
+      const label = bytes[pos++];
+      if (label === 0xf9) {
+        const gce = readSubBlocks();
+        disposal = (gce[0] >> 2) & 0x07;
+        transparentIndex = (gce[0] & 0x01) ? gce[3] : -1;
+        delay = (gce[1] | (gce[2] << 8)) * 10;
+      } else if (label === 0xff) {
+        const appId = String.fromCharCode(...bytes.slice(pos + 1, pos + 12));
+        pos += 1 + bytes[pos];
+        const data = readSubBlocks();
+        if ((appId === 'NETSCAPE2.0' || appId === 'ANIMEXTS1.0') && data[0] === 0x01) {
+          const loops = data[1] | (data[2] << 8);
+          loopCount = loops === 0 ? 0 : loops + 1;
+        }
+      } else {
+        readSubBlocks();
+      }
+      continue;
+    }
+
+    if (block !== 0x2c) throw new Error(`Unexpected GIF block 0x${block.toString(16)}`);
+
+    // Image Descriptor
+    const left = u16(pos);
+    const top = u16(pos + 2);
+    const w = u16(pos + 4);
+    const h = u16(pos + 6);
+    const imgPacked = bytes[pos + 8];
+    pos += 9;
+
+    let palette = globalPalette;
+    if (imgPacked & 0x80) {
+      const size = 3 * (1 << ((imgPacked & 0x07) + 1));
+      palette = bytes.slice(pos, pos + size);
+      pos += size;
+    }
+    if (!palette) throw new Error('GIF frame has no color table');
+
+    const minCodeSize = bytes[pos++];
+    let indices = lzwDecode(readSubBlocks(), minCodeSize, w * h);
+    if (imgPacked & 0x40) indices = deinterlace(indices, w, h);
+
+    const previous = disposal === 3 ? canvas.slice() : null;
+
+    for (let y = 0; y < h; y++) {
+      const cy = top + y;
+      if (cy >= height) break;
+      for (let x = 0; x < w; x++) {
+        const cx = left + x;
+        if (cx >= width) break;
+        const idx = indices[y * w + x];
+        if (idx === transparentIndex) continue;
+        const di = (cy * width + cx) * 4;
+        canvas[di] = palette[idx * 3];
+        canvas[di + 1] = palette[idx * 3 + 1];
+        canvas[di + 2] = palette[idx * 3 + 2];
+        canvas[di + 3] = 255;
+      }
+    }
+
+    frames.push({ imageData: new ImageData(canvas.slice(), width, height), delay });
+
+    if (disposal === 2) {
+      for (let y = top; y < Math.min(top + h, height); y++) {
+        canvas.fill(0, (y * width + left) * 4, (y * width + Math.min(left + w, width)) * 4);
+      }
+    } else if (disposal === 3 && previous) {
+      canvas.set(previous);
+    }
+
+    delay = 0;
+    disposal = 0;
+    transparentIndex = -1;
+  }
+
+  if (frames.length === 0) throw new Error('GIF contains no frames');
+  return { width, height, loopCount, frames };
+}
@@ -0,0 +1,217 @@
+import { buildPalette, applyPalette, DitherMode } from './quantize';
+
+export interface GifFrame {
+  data: Uint8ClampedArray; // RGBA pixels, width * height * 4
+  delay: number; // milliseconds
+}
+
+export interface GifOptions {
+  colors?: number; // 2-256, including the transparent entry
+  dither?: DitherMode;
+  loop?: number; // 0 = infinite, otherwise total number of plays
+  alphaThreshold?: number; // pixels below this alpha become transparent
+  onFrame?: (index: number) => void; // called after each frame has been written
+}
+
+class ByteWriter {
+  private buf = new Uint8Array(4096);
+  length = 0;
+
+  byte(b: number) {
+    if (this.length === this.buf.length) {
+      const grown = new Uint8Array(this.buf.length * 2);
+      grown.set(this.buf);
+      this.buf = grown;
+    }
+    this.buf[this.length++] = b;
+  }
+
+  uint16(n: number) {
+    this.byte(n & 0xff);
+    this.byte((n >> 8) & 0xff);
+  }
+
+  bytes(arr: ArrayLike<number>) {
+    for (let i = 0; i < arr.length; i++) this.byte(arr[i]);
+  }
+
+  ascii(s: string) {
+    for (let i = 0; i < s.length; i++) this.byte(s.charCodeAt(i));
+  }
+
+  result() {
+    return this.buf.slice(0, this.length);
+  }
+}
+
+// Variable-length-code LZW as described in the GIF89a spec (appendix F)
+function lzwEncode(indices: Uint8Array, minCodeSize: number, out: ByteWriter) {
+  const clearCode = 1 << minCodeSize;
+  const eoiCode = clearCode + 1;
+  const HSIZE = 5003;
+  const hashKeys = new Int32Array(HSIZE);
+  const hashCodes = new Int32Array(HSIZE);
+
+  let codeSize = minCodeSize + 1;
+  let nextCode = eoiCode + 1;
+
+  // Pending bits and the 255-byte sub-block being filled
+  let bitBuf = 0;
+  let bitCount = 0;
+  const block = new Uint8Array(255);
+  let blockLen = 0;
+
+  const flushBlock = () => {
+    if (blockLen === 0) return;
+    out.byte(blockLen);
+    for (let i = 0; i < blockLen; i++) out.byte(block[i]);
+    blockLen = 0;
+  };
+
+  const emit = (code: number) => {
+    bitBuf |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block[blockLen++] = bitBuf & 0xff;
+      if (blockLen === 255) flushBlock();
+      bitBuf >>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  const resetTable = () => {
+    hashKeys.fill(-1);
+    codeSize = minCodeSize + 1;
+    nextCode = eoiCode + 1;
+  };
+
+  out.byte(minCodeSize);
+  resetTable();
+  emit(clearCode);
+
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (k << 12) | prefix;
+    let h = (k << 4) ^ prefix;
+
+    let found = false;
+    if (hashKeys[h] === key) {
+      prefix = hashCodes[h];
+      found = true;
+    } else if (hashKeys[h] >= 0) {
+      // Secondary probe, as in compress(1)
+      const disp = h === 0 ? 1 : HSIZE - h;
+      do {
+        h -= disp;
+        if (h < 0) h += HSIZE;
+        if (hashKeys[h] === key) {
+          prefix = hashCodes[h];
+          found = true;
+          break;
+        }
+      } while (hashKeys[h] >= 0);
+    }
+    if (found) continue;
+
+    emit(prefix);
+    if (nextCode >= (1 << codeSize) && codeSize < 12) codeSize++;
+    if (nextCode < 4096) {
+      hashKeys[h] = key;
+      hashCodes[h] = nextCode++;
+    } else {
+      emit(clearCode);
+      resetTable();
+    }
+    prefix = k;
+  }
+
+  emit(prefix);
+  if (nextCode >= (1 << codeSize) && codeSize < 12) codeSize++;
+  emit(eoiCode);
+  if (bitCount > 0) {
+    block[blockLen++] = bitBuf & 0xff;
+    if (blockLen === 255) flushBlock();
+  }
+  flushBlock();
+  out.byte(0); // Block terminator
+}
+
+export function encodeGIF(frames: GifFrame[], width: number, height: number, options: GifOptions = {}): Blob {
+  const { colors = 256, dither = 'none', loop = 0, alphaThreshold = 128, onFrame } = options;
+  const out = new ByteWriter();
+
+  // 1. Header + Logical Screen Descriptor (no global color table, each frame carries its own)
+  out.ascii('GIF89a');
+  out.uint16(width);
+  out.uint16(height);
+  out.byte(0x00); // Packed fields: no GCT
+  out.byte(0); // Background color index
+  out.byte(0); // Pixel aspect ratio
+
+  // 2. NETSCAPE2.0 application extension (loop count). Omitted for "play once".
+  if (loop !== 1) {
+    out.bytes([0x21, 0xff, 0x0b]);
+    out.ascii('NETSCAPE2.0');
+    out.bytes([0x03, 0x01]);
+    out.uint16(loop === 0 ? 0 : Math.min(loop - 1, 0xffff));
+    out.byte(0);
+  }
+
+  // 3. Frames
+  const transparency = frames.map(({ data }) => {
+    for (let i = 3; i < data.length; i += 4) {
+      if (data[i] < alphaThreshold) return true;
+    }
+    return false;
+  });
+
+  for (let f = 0; f < frames.length; f++) {
+    const frame = frames[f];
+    const { data } = frame;
+    const hasAlpha = transparency[f];
+
+    const maxColors = Math.max(2, Math.min(256, colors));
+    const palette = buildPalette(data, hasAlpha ? maxColors - 1 : maxColors, alphaThreshold);
+    const paletteCount = palette.length / 3;
+    const transparentIndex = hasAlpha ? paletteCount : -1;
+    const indices = applyPalette(data, width, height, palette, { dither, alphaThreshold, transparentIndex });
+
+    // Color table size must be a power of two (2..256)
+    const usedEntries = paletteCount + (hasAlpha ? 1 : 0);
+    let tableBits = 1;
+    while ((1 << tableBits) < usedEntries) tableBits++;
+    const tableSize = 1 << tableBits;
+
+    // Graphic Control Extension
+    // Disposal 2 (restore to background) when the next frame has holes that must not
+    // show this one through (the last frame wraps to the first), otherwise 1 (leave in place)
+    const disposal = transparency[(f + 1) % frames.length] ? 2 : 1;
+    out.bytes([0x21, 0xf9, 0x04]);
+    out.byte((disposal << 2) | (hasAlpha ? 1 : 0));
+    // GIF delays are in 1/100 s; browsers play 0 and 1 as 100 ms, so 2 (20 ms) is the shortest kept
+    out.uint16(Math.max(2, Math.round(frame.delay / 10)));
+    out.byte(hasAlpha ? transparentIndex : 0);
+    out.byte(0);
+
+    // Image Descriptor with local color table
+    out.byte(0x2c);
+    out.uint16(0);
+    out.uint16(0);
+    out.uint16(width);
+    out.uint16(height);
+    out.byte(0x80 | (tableBits - 1));
+
+    const table = new Uint8Array(tableSize * 3);
+    table.set(palette);
+    out.bytes(table);
+
+    lzwEncode(indices, Math.max(2, tableBits), out);
+    onFrame?.(f);
+  }
+
+  // 4. Trailer
+  out.byte(0x3b);
+
+  return new Blob([out.result()] as BlobPart[], { type: 'image/gif' });
+}
@@ -0,0 +1,61 @@
+import { FrameTransform } from './render';
+
+export type Easing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out';
+
+export const EASINGS: { value: Easing; label: string }[] = [
+  { value: 'linear', label: 'Linear' },
+  { value: 'ease-in', label: 'Ease In' },
+  { value: 'ease-out', label: 'Ease Out' },
+  { value: 'ease-in-out', label: 'Ease In-Out' }
+];
+
+export interface KenBurnsOptions {
+  start: FrameTransform;
+  end: FrameTransform;
+  easing: Easing;
+  duration: number; // ms, first to last keyframe
+  fps: number;
+}
+
+// Cubic easing curves over t in [0, 1]
+export function ease(t: number, easing: Easing) {
+  switch (easing) {
+    case 'ease-in': return t * t * t;
+    case 'ease-out': return 1 - Math.pow(1 - t, 3);
+    case 'ease-in-out': return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+    default: return t;
+  }
+}
+
+/**
+ * Transform between two keyframes at progress t (already eased).
+ * Scale is interpolated geometrically so a zoom looks like constant speed.
+ */
+export function interpolateTransform(start: FrameTransform, end: FrameTransform, t: number): FrameTransform {
+  const lerp = (a: number, b: number) => a + (b - a) * t;
+  const geo = (a: number, b: number) => a * Math.pow(b / a, t);
+  const startY = start.scaleY ?? start.scale;
+  const endY = end.scaleY ?? end.scale;
+  const scale = geo(start.scale, end.scale);
+  const scaleY = geo(startY, endY);
+  return {
+    offsetX: parseFloat(lerp(start.offsetX, end.offsetX).toFixed(2)),
+    offsetY: parseFloat(lerp(start.offsetY, end.offsetY).toFixed(2)),
+    scale: parseFloat(scale.toFixed(4)),
+    scaleY: start.scaleY === undefined && end.scaleY === undefined ? undefined : parseFloat(scaleY.toFixed(4)),
+    rotation: parseFloat(lerp(start.rotation, end.rotation).toFixed(2))
+  };
+}
+
+// Frame count and per-frame delay that fill the duration at a frame rate; the first and last
+// frames sit exactly on the start and end keyframes
+export function kenBurnsTiming(duration: number, fps: number) {
+  const count = Math.max(2, Math.round((duration / 1000) * fps));
+  return { count, delay: Math.max(1, Math.round(1000 / fps)) };
+}
+
+// One transform per generated frame, from the start keyframe to the end keyframe
+export function kenBurnsTransforms({ start, end, easing, duration, fps }: KenBurnsOptions): FrameTransform[] {
+  const { count } = kenBurnsTiming(duration, fps);
+  return Array.from({ length: count }, (_, i) => interpolateTransform(start, end, ease(i / (count - 1), easing)));
+}
@@ -0,0 +1,173 @@
+import { CanvasSettings } from './render';
+
+// Captions, watermarks and logo stamps drawn on top of the frames
+
+interface OverlayBase {
+  id: string;
+  x: number; // Center of the overlay as a fraction of the composition canvas (0-1)
+  y: number;
+  rotation: number; // Degrees
+  opacity: number; // 0-1
+  firstFrame: number; // 1-based, inclusive
+  lastFrame: number; // 1-based, inclusive; 0 = up to the last frame
+  hidden?: boolean;
+}
+
+export interface TextOverlay extends OverlayBase {
+  kind: 'text';
+  text: string; // Newlines start new lines
+  font: string;
+  size: number; // Composition pixels
+  bold: boolean;
+  color: string;
+  strokeColor: string;
+  strokeWidth: number; // 0 = no outline
+  shadowColor: string;
+  shadowBlur: number; // 0 = no shadow
+  shadowOffsetX: number;
+  shadowOffsetY: number;
+}
+
+export interface ImageOverlay extends OverlayBase {
+  kind: 'image';
+  file: File;
+  previewUrl: string;
+  scale: number; // Of the stamp's own pixel size
+}
+
+export type Overlay = TextOverlay | ImageOverlay;
+
+export const OVERLAY_FONTS = ['sans-serif', 'serif', 'monospace', 'Arial', 'Helvetica', 'Georgia', 'Impact', 'Courier New', 'Comic Sans MS'];
+
+export function createTextOverlay(): TextOverlay {
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    kind: 'text',
+    x: 0.5,
+    y: 0.9,
+    rotation: 0,
+    opacity: 1,
+    firstFrame: 1,
+    lastFrame: 0,
+    text: 'Caption',
+    font: 'sans-serif',
+    size: 32,
+    bold: true,
+    color: '#ffffff',
+    strokeColor: '#000000',
+    strokeWidth: 3,
+    shadowColor: '#000000',
+    shadowBlur: 0,
+    shadowOffsetX: 0,
+    shadowOffsetY: 0
+  };
+}
+
+// Watermark default: bottom-right corner, slightly transparent
+export function createImageOverlay(file: File): ImageOverlay {
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    kind: 'image',
+    x: 0.85,
+    y: 0.85,
+    rotation: 0,
+    opacity: 0.8,
+    firstFrame: 1,
+    lastFrame: 0,
+    file,
+    previewUrl: URL.createObjectURL(file),
+    scale: 1
+  };
+}
+
+export function overlayVisible(overlay: Overlay, frameIndex: number) {
+  const n = frameIndex + 1;
+  return !overlay.hidden && n >= overlay.firstFrame && (overlay.lastFrame === 0 || n <= overlay.lastFrame);
+}
+
+// Decodes the image stamps once; the caller closes the bitmaps
+export async function loadOverlayImages(overlays: Overlay[]) {
+  const images = new Map<string, ImageBitmap>();
+  for (const overlay of overlays) {
+    if (overlay.kind === 'image') images.set(overlay.id, await createImageBitmap(overlay.file));
+  }
+  return images;
+}
+
+function drawText(ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D, o: TextOverlay, pixelScale: number) {
+  ctx.font = `${o.bold ? 'bold ' : ''}${o.size}px ${o.font}`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.lineJoin = 'round';
+  const lines = o.text.split('\n');
+  const lineHeight = o.size * 1.2;
+  const top = -((lines.length - 1) * lineHeight) / 2;
+
+  // Shadow settings ignore the transform, so they are scaled to output pixels by hand
+  const setShadow = (on: boolean) => {
+    ctx.shadowColor = on && o.shadowBlur + Math.abs(o.shadowOffsetX) + Math.abs(o.shadowOffsetY) > 0 ? o.shadowColor : 'transparent';
+    ctx.shadowBlur = o.shadowBlur * pixelScale;
+    ctx.shadowOffsetX = o.shadowOffsetX * pixelScale;
+    ctx.shadowOffsetY = o.shadowOffsetY * pixelScale;
+  };
+
+  // The outline is stroked at double width under the fill so it only grows outwards;
+  // only the first pass casts the shadow
+  if (o.strokeWidth > 0) {
+    setShadow(true);
+    ctx.strokeStyle = o.strokeColor;
+    ctx.lineWidth = o.strokeWidth * 2;
+    lines.forEach((line, i) => ctx.strokeText(line, 0, top + i * lineHeight));
+  }
+  setShadow(o.strokeWidth === 0);
+  ctx.fillStyle = o.color;
+  lines.forEach((line, i) => ctx.fillText(line, 0, top + i * lineHeight));
+}
+
+/**
+ * Draws the overlays shown on `frameIndex`, bottom layer first. The context must already map
+ * composition pixels (width x height) to the target; `pixelScale` is target pixels per composition pixel.
+ */
+export function drawOverlays(
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  overlays: Overlay[],
+  frameIndex: number,
+  width: number,
+  height: number,
+  images: Map<string, ImageBitmap>,
+  pixelScale: number
+) {
+  for (const overlay of overlays) {
+    if (!overlayVisible(overlay, frameIndex)) continue;
+    const image = overlay.kind === 'image' ? images.get(overlay.id) : undefined;
+    if (overlay.kind === 'image' && !image) continue;
+
+    ctx.save();
+    ctx.globalAlpha = overlay.opacity;
+    ctx.translate(overlay.x * width, overlay.y * height);
+    ctx.rotate((overlay.rotation * Math.PI) / 180);
+    if (overlay.kind === 'text') {
+      drawText(ctx, overlay, pixelScale);
+    } else if (image) {
+      ctx.scale(overlay.scale, overlay.scale);
+      ctx.drawImage(image, -image.width / 2, -image.height / 2);
+    }
+    ctx.restore();
+  }
+}
+
+// Overlays on an output frame rendered by renderFrame (same crop and scale)
+export function renderOverlays(
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  overlays: Overlay[],
+  frameIndex: number,
+  canvas: CanvasSettings,
+  images: Map<string, ImageBitmap>
+) {
+  if (overlays.length === 0) return;
+  ctx.save();
+  ctx.scale(canvas.scale, canvas.scale);
+  ctx.translate(-canvas.crop.x, -canvas.crop.y);
+  drawOverlays(ctx, overlays, frameIndex, canvas.width, canvas.height, images, canvas.scale);
+  ctx.restore();
+}
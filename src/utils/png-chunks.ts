@@ -0,0 +1,99 @@
+import { crc32 } from './crc32';
+
+export interface APNGPatchOptions {
+  loopCount?: number; // 0 = infinite, otherwise total number of plays
+  background?: [number, number, number]; // RGB written as a bKGD chunk
+}
+
+interface PNGChunk {
+  type: string;
+  offset: number; // Start of the length field
+  length: number; // Data length
+}
+
+function readChunks(bytes: Uint8Array): PNGChunk[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PNGChunk[] = [];
+  let offset = 8; // Skip PNG signature
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    chunks.push({ type, offset, length });
+    // length(4) + type(4) + data + crc(4)
+    offset += 12 + length;
+  }
+  return chunks;
+}
+
+function buildChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk, 4, 8 + data.length));
+  return chunk;
+}
+
+/**
+ * Post-processes an encoded (A)PNG: upng-js always writes num_plays = 0 and no background,
+ * so the acTL play count is rewritten in place and a bKGD chunk is inserted before the image data.
+ */
+export function patchAPNG(buffer: ArrayBuffer, options: APNGPatchOptions): ArrayBuffer {
+  let bytes = new Uint8Array(buffer.slice(0));
+  const chunks = readChunks(bytes);
+
+  if (options.loopCount !== undefined) {
+    const actl = chunks.find(c => c.type === 'acTL');
+    if (actl) {
+      const view = new DataView(bytes.buffer);
+      view.setUint32(actl.offset + 12, options.loopCount); // num_plays follows num_frames
+      view.setUint32(actl.offset + 8 + actl.length, crc32(bytes, actl.offset + 4, actl.offset + 8 + actl.length));
+    }
+  }
+
+  if (options.background) {
+    const [r, g, b] = options.background;
+    const ihdr = chunks.find(c => c.type === 'IHDR');
+    const colorType = ihdr ? bytes[ihdr.offset + 8 + 9] : 6;
+    let data: Uint8Array | null = null;
+
+    if (colorType === 3) {
+      // Indexed: bKGD holds the palette index of the closest opaque entry. Entries with tRNS alpha
+      // below 255 are skipped (upng-js reserves index 0 for transparent black); entries past the end
+      // of tRNS are opaque. Without any opaque entry the chunk is left out
+      const plte = chunks.find(c => c.type === 'PLTE');
+      const trns = chunks.find(c => c.type === 'tRNS');
+      if (plte) {
+        let best = -1, bestDist = Infinity;
+        for (let i = 0; i < plte.length / 3; i++) {
+          if (trns && i < trns.length && bytes[trns.offset + 8 + i] < 255) continue;
+          const p = plte.offset + 8 + i * 3;
+          const dist = (bytes[p] - r) ** 2 + (bytes[p + 1] - g) ** 2 + (bytes[p + 2] - b) ** 2;
+          if (dist < bestDist) { bestDist = dist; best = i; }
+        }
+        if (best >= 0) data = new Uint8Array([best]);
+      }
+    } else if (colorType === 0 || colorType === 4) {
+      // Grayscale: 16-bit gray level
+      const gray = Math.round(0.299 * r + 0.587 * g + 0.114 * b);
+      data = new Uint8Array([0, gray]);
+    } else {
+      // Truecolor: 16-bit samples, 8-bit images use the low byte
+      data = new Uint8Array([0, r, 0, g, 0, b]);
+    }
+
+    // bKGD goes after PLTE/tRNS and before the first frame's fcTL/IDAT
+    const insertAt = chunks.find(c => c.type === 'fcTL' || c.type === 'IDAT');
+    if (data && insertAt && !chunks.some(c => c.type === 'bKGD')) {
+      const bkgd = buildChunk('bKGD', data);
+      const patched = new Uint8Array(bytes.length + bkgd.length);
+      patched.set(bytes.subarray(0, insertAt.offset), 0);
+      patched.set(bkgd, insertAt.offset);
+      patched.set(bytes.subarray(insertAt.offset), insertAt.offset + bkgd.length);
+      bytes = patched;
+    }
+  }
+
+  return bytes.buffer;
+}
@@ -0,0 +1,183 @@
+import { Frame } from '../types';
+import { WebPMode } from './webp-encoder';
+import { DitherMode } from './quantize';
+import type { SequenceImageFormat } from '../workers/encoder.worker';
+import { CanvasSettings } from './render';
+import { createZip, readZip } from './zip';
+import { Overlay, ImageOverlay, TextOverlay } from './overlays';
+import { BackgroundMode } from './background';
+
+export const PROJECT_EXTENSION = 'aicproj';
+export const PROJECT_VERSION = 9;
+
+export interface ProjectSettings {
+  globalDelay: number;
+  exportFileName: string;
+  apngColors: number; // v5+, 0 = lossless
+  apngDither: DitherMode;
+  apngGlobalPalette: boolean;
+  webpQuality: number;
+  webpMode: WebPMode;
+  webpMinPsnr: number;
+  gifColors: number;
+  gifDither: boolean;
+  loopCount: number;
+  backgroundColor: string;
+  backgroundTransparent: boolean;
+  canvas: CanvasSettings | null; // null = base frame size (v2+)
+  spriteColumns: number; // v3+
+  spritePadding: number;
+  sequenceFormat: SequenceImageFormat; // v4+
+  sequenceQuality: number;
+  sizeBudget: number; // v6+, MB, 0 = no limit
+  backgroundMode: BackgroundMode; // v9+
+  fillColor: string; // v9+, backgroundColor is only the container hint
+}
+
+// Every Frame field except the runtime-only blob URL; the source file is stored next to the manifest
+interface ProjectFrame extends Omit<Frame, 'file' | 'previewUrl'> {
+  path: string;
+  fileName: string;
+  mimeType: string;
+  lastModified: number;
+}
+
+// Image stamps are stored under overlays/ like frame sources
+type ProjectOverlay = TextOverlay | (Omit<ImageOverlay, 'file' | 'previewUrl'> & { path: string; fileName: string; mimeType: string });
+
+interface ProjectManifest {
+  app: 'animated-image-creator';
+  version: number;
+  settings: ProjectSettings;
+  frames: ProjectFrame[];
+  overlays?: ProjectOverlay[]; // v8+
+  backgroundImage?: { path: string; fileName: string; mimeType: string }; // v9+
+}
+
+/**
+ * Packs the editing session into a ZIP bundle: project.json (versioned manifest)
+ * plus the untouched source file of every frame under frames/, of every image overlay under overlays/
+ * and of the background image under background/.
+ * Frames sharing one source (e.g. a Ken Burns sequence) reference a single stored file.
+ */
+export async function saveProject(
+  frames: Frame[],
+  settings: ProjectSettings,
+  overlays: Overlay[],
+  backgroundImage: File | null
+): Promise<Blob> {
+  const entries = [];
+  const projectFrames: ProjectFrame[] = [];
+  const paths = new Map<File, string>();
+
+  for (let i = 0; i < frames.length; i++) {
+    const { file, previewUrl: _previewUrl, ...fields } = frames[i];
+    let path = paths.get(file);
+    if (!path) {
+      path = `frames/${String(i).padStart(4, '0')}_${file.name}`;
+      paths.set(file, path);
+      entries.push({ name: path, data: new Uint8Array(await file.arrayBuffer()) });
+    }
+    projectFrames.push({ ...fields, path, fileName: file.name, mimeType: file.type, lastModified: file.lastModified });
+  }
+
+  const projectOverlays: ProjectOverlay[] = [];
+  for (const overlay of overlays) {
+    if (overlay.kind === 'text') {
+      projectOverlays.push(overlay);
+      continue;
+    }
+    const { file, previewUrl: _previewUrl, ...fields } = overlay;
+    const path = `overlays/${overlay.id}_${file.name}`;
+    entries.push({ name: path, data: new Uint8Array(await file.arrayBuffer()) });
+    projectOverlays.push({ ...fields, path, fileName: file.name, mimeType: file.type });
+  }
+
+  let projectBackground: ProjectManifest['backgroundImage'];
+  if (backgroundImage) {
+    projectBackground = { path: `background/${backgroundImage.name}`, fileName: backgroundImage.name, mimeType: backgroundImage.type };
+    entries.push({ name: projectBackground.path, data: new Uint8Array(await backgroundImage.arrayBuffer()) });
+  }
+
+  const manifest: ProjectManifest = {
+    app: 'animated-image-creator',
+    version: PROJECT_VERSION,
+    settings,
+    frames: projectFrames,
+    overlays: projectOverlays,
+    backgroundImage: projectBackground
+  };
+  entries.unshift({ name: 'project.json', data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+  return createZip(entries);
+}
+
+export async function openProject(
+  file: Blob
+): Promise<{ frames: Frame[]; settings: ProjectSettings; overlays: Overlay[]; backgroundImage: File | null }> {
+  const entries = new Map(readZip(await file.arrayBuffer()).map(e => [e.name, e.data]));
+  const manifestData = entries.get('project.json');
+  if (!manifestData) throw new Error('Project file has no project.json');
+
+  const manifest: ProjectManifest = JSON.parse(new TextDecoder().decode(manifestData));
+  if (manifest.app !== 'animated-image-creator') throw new Error('Not an Animated Image Creator project');
+  if (manifest.version > PROJECT_VERSION) {
+    throw new Error(`Project was saved by a newer version (v${manifest.version}), please update the app`);
+  }
+
+  // Frames that point at the same stored file share one File and preview URL again
+  const sources = new Map<string, { file: File; previewUrl: string }>();
+  const frames = manifest.frames.map(({ path, fileName, mimeType, lastModified, ...fields }) => {
+    let source = sources.get(path);
+    if (!source) {
+      const data = entries.get(path);
+      if (!data) throw new Error(`Project is missing ${path}`);
+      const frameFile = new File([data] as BlobPart[], fileName, { type: mimeType, lastModified });
+      source = { file: frameFile, previewUrl: URL.createObjectURL(frameFile) };
+      sources.set(path, source);
+    }
+    return { ...fields, ...source };
+  });
+
+  const overlays = (manifest.overlays ?? []).map((overlay): Overlay => {
+    if (overlay.kind === 'text') return overlay;
+    const { path, fileName, mimeType, ...fields } = overlay;
+    const data = entries.get(path);
+    if (!data) throw new Error(`Project is missing ${path}`);
+    const overlayFile = new File([data] as BlobPart[], fileName, { type: mimeType });
+    return { ...fields, file: overlayFile, previewUrl: URL.createObjectURL(overlayFile) };
+  });
+
+  let backgroundImage: File | null = null;
+  if (manifest.backgroundImage) {
+    const { path, fileName, mimeType } = manifest.backgroundImage;
+    const data = entries.get(path);
+    if (!data) throw new Error(`Project is missing ${path}`);
+    backgroundImage = new File([data] as BlobPart[], fileName, { type: mimeType });
+  }
+
+  // v1 projects predate the output canvas settings, v2 the sprite sheet export, v3 the image sequence export,
+  // v4 the APNG palette options and v5 the size budget. v4's apngCompression was passed to upng-js as a
+  // palette size rather than a compression level, so it is dropped. Frame flip, crop and filters (v7) are
+  // optional, so older frames need no defaults, and so is the chroma key (v9); projects before v8 have no
+  // overlays and before v9 no background fill
+  const { apngCompression: _apngCompression, ...saved } = manifest.settings as ProjectSettings & { apngCompression?: number };
+  return {
+    frames,
+    overlays,
+    backgroundImage,
+    settings: {
+      ...saved,
+      apngColors: saved.apngColors ?? 0,
+      apngDither: saved.apngDither ?? 'floyd-steinberg',
+      apngGlobalPalette: saved.apngGlobalPalette ?? true,
+      canvas: saved.canvas ?? null,
+      spriteColumns: saved.spriteColumns ?? 0,
+      spritePadding: saved.spritePadding ?? 0,
+      sequenceFormat: saved.sequenceFormat ?? 'png',
+      sequenceQuality: saved.sequenceQuality ?? 0.9,
+      sizeBudget: saved.sizeBudget ?? 0,
+      backgroundMode: saved.backgroundMode ?? 'transparent',
+      fillColor: saved.fillColor ?? '#ffffff'
+    }
+  };
+}
@@ -0,0 +1,274 @@
+export type DitherMode = 'none' | 'floyd-steinberg' | 'ordered';
+
+export const DITHER_MODES: { value: DitherMode; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'floyd-steinberg', label: 'Floyd–Steinberg' },
+  { value: 'ordered', label: 'Ordered (Bayer)' }
+];
+
+type PixelData = Uint8ClampedArray | Uint8Array;
+
+// Colors are bucketed to 5 bits per channel before median cut (32768 buckets)
+const HIST_SIZE = 1 << 15;
+
+function bucketOf(r: number, g: number, b: number) {
+  return ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+}
+
+function packRgb(r: number, g: number, b: number) {
+  return (r << 16) | (g << 8) | b;
+}
+
+// Distinct opaque colours of the pixels, or null as soon as there are more than maxColors
+function exactColors(frames: PixelData[], maxColors: number, alphaThreshold: number): Set<number> | null {
+  const colors = new Set<number>();
+  for (const pixels of frames) {
+    for (let i = 0; i < pixels.length; i += 4) {
+      if (pixels[i + 3] < alphaThreshold) continue;
+      colors.add(packRgb(pixels[i], pixels[i + 1], pixels[i + 2]));
+      if (colors.size > maxColors) return null;
+    }
+  }
+  return colors;
+}
+
+interface ColorBox {
+  buckets: number[];
+  count: number;
+  min: [number, number, number];
+  max: [number, number, number];
+}
+
+function makeBox(buckets: number[], counts: Uint32Array): ColorBox {
+  const min: [number, number, number] = [31, 31, 31];
+  const max: [number, number, number] = [0, 0, 0];
+  let count = 0;
+  for (const b of buckets) {
+    const c = [(b >> 10) & 31, (b >> 5) & 31, b & 31];
+    for (let k = 0; k < 3; k++) {
+      if (c[k] < min[k]) min[k] = c[k];
+      if (c[k] > max[k]) max[k] = c[k];
+    }
+    count += counts[b];
+  }
+  return { buckets, count, min, max };
+}
+
+/**
+ * Builds a palette of at most `maxColors` RGB entries with median cut. When the pixels have
+ * no more than `maxColors` distinct colours they are used as-is, so e.g. re-exported GIFs keep
+ * their exact colours. Pixels with alpha below `alphaThreshold` are ignored (they map to the transparent index).
+ * Passing several frames builds one palette shared by all of them.
+ * Returns packed RGB triplets.
+ */
+export function buildPalette(
+  data: PixelData | PixelData[],
+  maxColors: number,
+  alphaThreshold = 128
+): Uint8Array {
+  const frames = Array.isArray(data) ? data : [data];
+  const exact = exactColors(frames, maxColors, alphaThreshold);
+  if (exact && exact.size > 0) {
+    const palette = new Uint8Array(exact.size * 3);
+    let i = 0;
+    for (const color of exact) {
+      palette[i++] = color >> 16;
+      palette[i++] = (color >> 8) & 255;
+      palette[i++] = color & 255;
+    }
+    return palette;
+  }
+
+  const counts = new Uint32Array(HIST_SIZE);
+  const sums = new Float64Array(HIST_SIZE * 3);
+
+  for (const pixels of frames) {
+    for (let i = 0; i < pixels.length; i += 4) {
+      if (pixels[i + 3] < alphaThreshold) continue;
+      const b = bucketOf(pixels[i], pixels[i + 1], pixels[i + 2]);
+      counts[b]++;
+      sums[b * 3] += pixels[i];
+      sums[b * 3 + 1] += pixels[i + 1];
+      sums[b * 3 + 2] += pixels[i + 2];
+    }
+  }
+
+  const used: number[] = [];
+  for (let b = 0; b < HIST_SIZE; b++) if (counts[b] > 0) used.push(b);
+  if (used.length === 0) return new Uint8Array(3);
+
+  const boxes: ColorBox[] = [makeBox(used, counts)];
+
+  while (boxes.length < maxColors) {
+    // Split the most populated box that still spans more than one bucket
+    let target = -1;
+    let best = 0;
+    for (let i = 0; i < boxes.length; i++) {
+      const box = boxes[i];
+      if (box.buckets.length < 2) continue;
+      const range = Math.max(box.max[0] - box.min[0], box.max[1] - box.min[1], box.max[2] - box.min[2]);
+      const score = box.count * (range + 1);
+      if (score > best) { best = score; target = i; }
+    }
+    if (target === -1) break;
+
+    const box = boxes[target];
+    const ranges = [box.max[0] - box.min[0], box.max[1] - box.min[1], box.max[2] - box.min[2]];
+    const axis = ranges.indexOf(Math.max(...ranges));
+    const shift = axis === 0 ? 10 : axis === 1 ? 5 : 0;
+    box.buckets.sort((a, b) => ((a >> shift) & 31) - ((b >> shift) & 31));
+
+    // Cut at the weighted median, keeping at least one bucket on each side
+    let acc = 0;
+    let cut = 1;
+    for (let i = 0; i < box.buckets.length - 1; i++) {
+      acc += counts[box.buckets[i]];
+      cut = i + 1;
+      if (acc >= box.count / 2) break;
+    }
+
+    boxes.splice(target, 1,
+      makeBox(box.buckets.slice(0, cut), counts),
+      makeBox(box.buckets.slice(cut), counts)
+    );
+  }
+
+  const palette = new Uint8Array(boxes.length * 3);
+  boxes.forEach((box, i) => {
+    let r = 0, g = 0, b = 0;
+    for (const bucket of box.buckets) {
+      r += sums[bucket * 3];
+      g += sums[bucket * 3 + 1];
+      b += sums[bucket * 3 + 2];
+    }
+    palette[i * 3] = Math.round(r / box.count);
+    palette[i * 3 + 1] = Math.round(g / box.count);
+    palette[i * 3 + 2] = Math.round(b / box.count);
+  });
+  return palette;
+}
+
+function nearestIndex(palette: Uint8Array, r: number, g: number, b: number) {
+  let best = 0;
+  let bestDist = Infinity;
+  for (let i = 0; i < palette.length; i += 3) {
+    const dr = palette[i] - r;
+    const dg = palette[i + 1] - g;
+    const db = palette[i + 2] - b;
+    const dist = dr * dr + dg * dg + db * db;
+    if (dist < bestDist) { bestDist = dist; best = i / 3; }
+  }
+  return best;
+}
+
+export interface PaletteOptions {
+  dither?: DitherMode;
+  alphaThreshold?: number;
+  // Index written for pixels below the alpha threshold (-1 = none, pixels are treated as opaque)
+  transparentIndex?: number;
+}
+
+// 4x4 Bayer matrix for ordered dithering
+const BAYER_4 = [0, 8, 2, 10, 12, 4, 14, 6, 3, 11, 1, 9, 15, 7, 13, 5];
+
+/**
+ * Maps RGBA pixels to palette indices, optionally with Floyd–Steinberg error diffusion
+ * or ordered (Bayer) dithering.
+ */
+export function applyPalette(
+  data: PixelData,
+  width: number,
+  height: number,
+  palette: Uint8Array,
+  options: PaletteOptions = {}
+): Uint8Array {
+  const { dither = 'none', alphaThreshold = 128, transparentIndex = -1 } = options;
+  const indices = new Uint8Array(width * height);
+  const cache = new Int16Array(HIST_SIZE).fill(-1);
+  // Palette colours always map to their own entry; the bucket cache would merge entries sharing a bucket
+  const exact = new Map<number, number>();
+  for (let i = palette.length / 3 - 1; i >= 0; i--) exact.set(packRgb(palette[i * 3], palette[i * 3 + 1], palette[i * 3 + 2]), i);
+
+  const lookup = (r: number, g: number, b: number) => {
+    const hit = exact.get(packRgb(r, g, b));
+    if (hit !== undefined) return hit;
+    const key = bucketOf(r, g, b);
+    let idx = cache[key];
+    if (idx === -1) {
+      idx = nearestIndex(palette, r, g, b);
+      cache[key] = idx;
+    }
+    return idx;
+  };
+
+  if (dither === 'none') {
+    for (let p = 0, i = 0; p < indices.length; p++, i += 4) {
+      if (transparentIndex >= 0 && data[i + 3] < alphaThreshold) {
+        indices[p] = transparentIndex;
+      } else {
+        indices[p] = lookup(data[i], data[i + 1], data[i + 2]);
+      }
+    }
+    return indices;
+  }
+
+  if (dither === 'ordered') {
+    // Threshold offsets span roughly one palette step per channel
+    const spread = Math.min(255, 255 / (Math.cbrt(palette.length / 3) - 1));
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const p = y * width + x;
+        const i = p * 4;
+        if (transparentIndex >= 0 && data[i + 3] < alphaThreshold) {
+          indices[p] = transparentIndex;
+          continue;
+        }
+        // Colours the palette has exactly are not dithered
+        const hit = exact.get(packRgb(data[i], data[i + 1], data[i + 2]));
+        if (hit !== undefined) {
+          indices[p] = hit;
+          continue;
+        }
+        const offset = ((BAYER_4[(y & 3) * 4 + (x & 3)] + 0.5) / 16 - 0.5) * spread;
+        const r = Math.max(0, Math.min(255, data[i] + offset));
+        const g = Math.max(0, Math.min(255, data[i + 1] + offset));
+        const b = Math.max(0, Math.min(255, data[i + 2] + offset));
+        indices[p] = lookup(r | 0, g | 0, b | 0);
+      }
+    }
+    return indices;
+  }
+
+  // Error buffers for the current and next row (RGB per pixel)
+  let cur = new Float32Array((width + 2) * 3);
+  let next = new Float32Array((width + 2) * 3);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      const i = p * 4;
+      if (transparentIndex >= 0 && data[i + 3] < alphaThreshold) {
+        indices[p] = transparentIndex;
+        continue;
+      }
+      const e = (x + 1) * 3;
+      const r = Math.max(0, Math.min(255, data[i] + cur[e]));
+      const g = Math.max(0, Math.min(255, data[i + 1] + cur[e + 1]));
+      const b = Math.max(0, Math.min(255, data[i + 2] + cur[e + 2]));
+      const idx = lookup(r | 0, g | 0, b | 0);
+      indices[p] = idx;
+
+      const er = r - palette[idx * 3];
+      const eg = g - palette[idx * 3 + 1];
+      const eb = b - palette[idx * 3 + 2];
+      // Distribute error: 7/16 right, 3/16 bottom-left, 5/16 bottom, 1/16 bottom-right
+      cur[e + 3] += er * 7 / 16; cur[e + 4] += eg * 7 / 16; cur[e + 5] += eb * 7 / 16;
+      next[e - 3] += er * 3 / 16; next[e - 2] += eg * 3 / 16; next[e - 1] += eb * 3 / 16;
+      next[e] += er * 5 / 16; next[e + 1] += eg * 5 / 16; next[e + 2] += eb * 5 / 16;
+      next[e + 3] += er / 16; next[e + 4] += eg / 16; next[e + 5] += eb / 16;
+    }
+    [cur, next] = [next, cur];
+    next.fill(0);
+  }
+  return indices;
+}
@@ -0,0 +1,280 @@
+import { FrameTransform } from './render';
+
+// Side of the square grayscale images the estimation runs on (power of two for the FFT)
+export const REGISTER_SIZE = 128;
+
+export interface Registration {
+  dx: number; // Translation in analysis pixels
+  dy: number;
+  scale: number;
+  rotation: number; // Degrees, clockwise like CanvasRenderingContext2D.rotate
+  confidence: number; // 0-1, normalized cross-correlation after alignment
+}
+
+export interface FrameRegistration extends FrameTransform {
+  confidence: number;
+}
+
+// In-place iterative radix-2 FFT over n complex values starting at `offset` with `stride`
+function fft1d(re: Float64Array, im: Float64Array, n: number, offset: number, stride: number, inverse: boolean) {
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      const a = offset + i * stride;
+      const b = offset + j * stride;
+      [re[a], re[b]] = [re[b], re[a]];
+      [im[a], im[b]] = [im[b], im[a]];
+    }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = (inverse ? 2 : -2) * Math.PI / len;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let i = 0; i < n; i += len) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < len / 2; k++) {
+        const a = offset + (i + k) * stride;
+        const b = offset + (i + k + len / 2) * stride;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+  if (inverse) {
+    for (let i = 0; i < n; i++) {
+      re[offset + i * stride] /= n;
+      im[offset + i * stride] /= n;
+    }
+  }
+}
+
+function fft2d(re: Float64Array, im: Float64Array, n: number, inverse = false) {
+  for (let y = 0; y < n; y++) fft1d(re, im, n, y * n, 1, inverse);
+  for (let x = 0; x < n; x++) fft1d(re, im, n, x, n, inverse);
+}
+
+// Hann window, tapers image borders so they don't dominate the spectrum
+function hann(n: number) {
+  const w = new Float64Array(n);
+  for (let i = 0; i < n; i++) w[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (n - 1));
+  return w;
+}
+
+function windowed(img: Float32Array, n: number) {
+  const w = hann(n);
+  let mean = 0;
+  for (let i = 0; i < img.length; i++) mean += img[i];
+  mean /= img.length;
+  const out = new Float64Array(n * n);
+  for (let y = 0; y < n; y++) {
+    for (let x = 0; x < n; x++) out[y * n + x] = (img[y * n + x] - mean) * w[y] * w[x];
+  }
+  return out;
+}
+
+// Sub-pixel peak offset from a parabola through three samples
+function parabolic(l: number, c: number, r: number) {
+  const d = l - 2 * c + r;
+  return d === 0 ? 0 : 0.5 * (l - r) / d;
+}
+
+/**
+ * Phase correlation of two n x n images.
+ * Returns the shift d for which b(p) ≈ a(p - d), plus the correlation peak height.
+ */
+function phaseCorrelate(a: Float64Array, b: Float64Array, n: number) {
+  const aRe = Float64Array.from(a), aIm = new Float64Array(n * n);
+  const bRe = Float64Array.from(b), bIm = new Float64Array(n * n);
+  fft2d(aRe, aIm, n);
+  fft2d(bRe, bIm, n);
+
+  // Normalized cross-power spectrum B * conj(A) / |B * conj(A)|
+  const re = new Float64Array(n * n), im = new Float64Array(n * n);
+  for (let i = 0; i < n * n; i++) {
+    const r = bRe[i] * aRe[i] + bIm[i] * aIm[i];
+    const j = bIm[i] * aRe[i] - bRe[i] * aIm[i];
+    const mag = Math.hypot(r, j) || 1;
+    re[i] = r / mag;
+    im[i] = j / mag;
+  }
+  fft2d(re, im, n, true);
+
+  let best = 0;
+  for (let i = 1; i < n * n; i++) if (re[i] > re[best]) best = i;
+  const px = best % n;
+  const py = Math.floor(best / n);
+  const at = (x: number, y: number) => re[((y + n) % n) * n + ((x + n) % n)];
+  const sx = px + parabolic(at(px - 1, py), at(px, py), at(px + 1, py));
+  const sy = py + parabolic(at(px, py - 1), at(px, py), at(px, py + 1));
+  return {
+    dx: sx > n / 2 ? sx - n : sx,
+    dy: sy > n / 2 ? sy - n : sy,
+    peak: re[best]
+  };
+}
+
+// Centered, high-pass filtered magnitude spectrum resampled to log-polar coordinates.
+// Rows are angles over [0, π), columns are log radius.
+function logPolarSpectrum(img: Float32Array, n: number) {
+  const re = windowed(img, n), im = new Float64Array(n * n);
+  fft2d(re, im, n);
+
+  const mag = new Float64Array(n * n);
+  for (let y = 0; y < n; y++) {
+    for (let x = 0; x < n; x++) {
+      // fftshift so the DC term sits at the center
+      const sx = (x + n / 2) % n, sy = (y + n / 2) % n;
+      const fx = (sx - n / 2) / n, fy = (sy - n / 2) / n;
+      const c = Math.cos(Math.PI * fx) * Math.cos(Math.PI * fy);
+      const highPass = (1 - c) * (2 - c);
+      mag[sy * n + sx] = Math.hypot(re[y * n + x], im[y * n + x]) * highPass;
+    }
+  }
+
+  const out = new Float64Array(n * n);
+  const maxLog = Math.log(n / 2);
+  for (let t = 0; t < n; t++) {
+    const angle = (Math.PI * t) / n;
+    const cos = Math.cos(angle), sin = Math.sin(angle);
+    for (let r = 0; r < n; r++) {
+      const radius = Math.exp((maxLog * r) / n);
+      out[t * n + r] = sample(mag, n, n / 2 + radius * cos, n / 2 + radius * sin);
+    }
+  }
+  return { image: out, logStep: maxLog / n };
+}
+
+// Bilinear sample, 0 outside the image
+function sample(img: ArrayLike<number>, n: number, x: number, y: number) {
+  const x0 = Math.floor(x), y0 = Math.floor(y);
+  if (x0 < 0 || y0 < 0 || x0 >= n - 1 || y0 >= n - 1) return 0;
+  const fx = x - x0, fy = y - y0;
+  const i = y0 * n + x0;
+  return (img[i] * (1 - fx) + img[i + 1] * fx) * (1 - fy) + (img[i + n] * (1 - fx) + img[i + n + 1] * fx) * fy;
+}
+
+/**
+ * Warps `img` by the similarity transform p' = c + t + s·R(θ)·(p - c) around the image center.
+ * `mask` receives 1 where the warped image has coverage.
+ */
+function warp(img: Float32Array, n: number, dx: number, dy: number, scale: number, rotationRad: number, mask?: Uint8Array) {
+  const out = new Float32Array(n * n);
+  const c = n / 2;
+  const cos = Math.cos(rotationRad) / scale, sin = Math.sin(rotationRad) / scale;
+  for (let y = 0; y < n; y++) {
+    for (let x = 0; x < n; x++) {
+      // Inverse mapping: p = c + R(-θ)·(p' - c - t) / s
+      const ux = x - c - dx, uy = y - c - dy;
+      const sx = c + cos * ux + sin * uy;
+      const sy = c - sin * ux + cos * uy;
+      const inside = sx >= 0 && sy >= 0 && sx <= n - 1 && sy <= n - 1;
+      out[y * n + x] = inside ? sample(img, n, Math.min(sx, n - 1.001), Math.min(sy, n - 1.001)) : 0;
+      if (mask) mask[y * n + x] = inside ? 1 : 0;
+    }
+  }
+  return out;
+}
+
+// Normalized cross-correlation over the pixels the warped image covers
+function ncc(a: Float32Array, b: Float32Array, mask: Uint8Array) {
+  let count = 0, sumA = 0, sumB = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!mask[i]) continue;
+    count++;
+    sumA += a[i];
+    sumB += b[i];
+  }
+  if (count < a.length / 4) return 0; // Too little overlap to trust
+  const meanA = sumA / count, meanB = sumB / count;
+  let cov = 0, varA = 0, varB = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!mask[i]) continue;
+    const da = a[i] - meanA, db = b[i] - meanB;
+    cov += da * db;
+    varA += da * da;
+    varB += db * db;
+  }
+  if (varA === 0 || varB === 0) return 0;
+  return cov / Math.sqrt(varA * varB);
+}
+
+/**
+ * Fourier–Mellin registration of two n x n grayscale images.
+ * Finds the similarity transform that maps `moving` onto `reference`:
+ * rotation and scale from the log-polar magnitude spectra (which are translation invariant),
+ * then translation by phase correlation after undoing rotation and scale.
+ */
+export function registerImages(reference: Float32Array, moving: Float32Array, n = REGISTER_SIZE): Registration {
+  // 1. Rotation + scale
+  const refLp = logPolarSpectrum(reference, n);
+  const movLp = logPolarSpectrum(moving, n);
+  const rs = phaseCorrelate(movLp.image, refLp.image, n);
+  const baseRotation = (Math.PI * rs.dy) / n;
+  const scale = Math.exp(-rs.dx * refLp.logStep);
+
+  // 2. Translation; the magnitude spectrum can't tell θ from θ + 180°, so try both
+  const refWindowed = windowed(reference, n);
+  let best: Registration | null = null;
+  for (const rotation of [baseRotation, baseRotation + Math.PI]) {
+    const rotated = warp(moving, n, 0, 0, scale, rotation);
+    const t = phaseCorrelate(windowed(rotated, n), refWindowed, n);
+    const mask = new Uint8Array(n * n);
+    const aligned = warp(moving, n, t.dx, t.dy, scale, rotation, mask);
+    const confidence = Math.max(0, ncc(aligned, reference, mask));
+    if (!best || confidence > best.confidence) {
+      let degrees = (rotation * 180) / Math.PI;
+      degrees = ((degrees + 180) % 360 + 360) % 360 - 180;
+      best = { dx: t.dx, dy: t.dy, scale, rotation: degrees, confidence };
+    }
+  }
+  return best!;
+}
+
+/**
+ * Draws an image into the n x n analysis space as luminance (transparent pixels count as black).
+ * The canvas (width x height) is fitted into the square; the image is centered on the canvas
+ * like an untransformed frame.
+ */
+export function toAnalysisGray(img: CanvasImageSource & { width: number; height: number }, width: number, height: number, n = REGISTER_SIZE) {
+  const canvas = new OffscreenCanvas(n, n);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Could not get canvas context');
+  const k = n / Math.max(width, height);
+  ctx.setTransform(k, 0, 0, k, n / 2 - (width / 2) * k, n / 2 - (height / 2) * k);
+  ctx.drawImage(img, (width - img.width) / 2, (height - img.height) / 2);
+  const { data } = ctx.getImageData(0, 0, n, n);
+  const gray = new Float32Array(n * n);
+  for (let i = 0; i < gray.length; i++) {
+    const p = i * 4;
+    gray[i] = ((0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2]) * data[p + 3]) / (255 * 255);
+  }
+  return gray;
+}
+
+// Estimates the transform of `frame` against the base image, in canvas pixels
+export function registerFrame(
+  base: CanvasImageSource & { width: number; height: number },
+  frame: CanvasImageSource & { width: number; height: number },
+  n = REGISTER_SIZE
+): FrameRegistration {
+  const width = base.width, height = base.height;
+  const result = registerImages(toAnalysisGray(base, width, height, n), toAnalysisGray(frame, width, height, n), n);
+  const k = n / Math.max(width, height);
+  return {
+    offsetX: result.dx / k,
+    offsetY: result.dy / k,
+    scale: result.scale,
+    rotation: result.rotation,
+    confidence: result.confidence
+  };
+}
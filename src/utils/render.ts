@@ -0,0 +1,110 @@
+import { Region } from './frame-diff';
+import { ChromaKey, keyedSource } from './chroma-key';
+
+export interface FrameTransform {
+  offsetX: number;
+  offsetY: number;
+  scale: number; // Horizontal scale, and vertical too unless scaleY is set
+  scaleY?: number; // Separate vertical scale for stretched frames
+  rotation: number;
+}
+
+// Colour adjustments, same meaning as the CSS / canvas filter functions
+export interface FrameFilters {
+  brightness: number; // 1 = unchanged
+  contrast: number; // 1 = unchanged
+  saturation: number; // 1 = unchanged
+  hue: number; // Degrees
+  grayscale: number; // 0-1
+  opacity: number; // 0-1
+}
+
+export const DEFAULT_FILTERS: FrameFilters = { brightness: 1, contrast: 1, saturation: 1, hue: 0, grayscale: 0, opacity: 1 };
+
+// Per-frame image edits applied to the source before its transform
+export interface FrameAdjustments {
+  flipX?: boolean;
+  flipY?: boolean;
+  crop?: Region; // In source image pixels; the rest of the image is hidden, the kept part stays in place
+  filters?: FrameFilters;
+  chromaKey?: ChromaKey; // Keyed out before everything else
+}
+
+// Filter string for ctx.filter and CSS `filter`, so previews, thumbnails and exports match
+export function filterCss(filters?: FrameFilters) {
+  if (!filters) return 'none';
+  const { brightness, contrast, saturation, hue, grayscale, opacity } = filters;
+  const parts = [
+    brightness !== 1 && `brightness(${brightness})`,
+    contrast !== 1 && `contrast(${contrast})`,
+    saturation !== 1 && `saturate(${saturation})`,
+    hue !== 0 && `hue-rotate(${hue}deg)`,
+    grayscale !== 0 && `grayscale(${grayscale})`,
+    opacity !== 1 && `opacity(${opacity})`
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' ') : 'none';
+}
+
+// Draws the image centered on the current origin with the frame's chroma key, flip, crop and filters.
+// Leaves the filter and flip on the context, callers save/restore around it
+export function drawAdjusted(
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  img: CanvasImageSource & { width: number; height: number },
+  adjustments: FrameAdjustments
+) {
+  const { flipX, flipY, crop, filters, chromaKey } = adjustments;
+  if (chromaKey) img = keyedSource(img, chromaKey);
+  ctx.filter = filterCss(filters);
+  ctx.scale(flipX ? -1 : 1, flipY ? -1 : 1);
+  if (crop) {
+    ctx.drawImage(img, crop.x, crop.y, crop.width, crop.height,
+      crop.x - img.width / 2, crop.y - img.height / 2, crop.width, crop.height);
+  } else {
+    ctx.drawImage(img, -img.width / 2, -img.height / 2);
+  }
+}
+
+// Composition canvas the frames are laid out on, and the part of it that gets exported
+export interface CanvasSettings {
+  width: number;
+  height: number;
+  crop: Region; // In composition pixels
+  scale: number; // Output pixels per composition pixel
+}
+
+export function defaultCanvas(width: number, height: number): CanvasSettings {
+  return { width, height, crop: { x: 0, y: 0, width, height }, scale: 1 };
+}
+
+export function outputSize(canvas: CanvasSettings) {
+  return {
+    width: Math.max(1, Math.round(canvas.crop.width * canvas.scale)),
+    height: Math.max(1, Math.round(canvas.crop.height * canvas.scale))
+  };
+}
+
+// Draws one source image into the output using the frame's adjustments and transform.
+// The image is centered on the composition canvas, then panned, rotated and scaled around its center;
+// the canvas is then cropped and scaled to the output size.
+export function renderFrame(
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  img: CanvasImageSource & { width: number; height: number },
+  frame: FrameTransform & FrameAdjustments,
+  canvas: CanvasSettings
+) {
+  const scale = frame.scale || 1;
+  const rotation = frame.rotation || 0;
+  const out = outputSize(canvas);
+
+  ctx.clearRect(0, 0, out.width, out.height);
+  ctx.save();
+  ctx.scale(canvas.scale, canvas.scale);
+  ctx.translate(-canvas.crop.x, -canvas.crop.y);
+  const cx = (canvas.width / 2) + frame.offsetX;
+  const cy = (canvas.height / 2) + frame.offsetY;
+  ctx.translate(cx, cy);
+  ctx.rotate((rotation * Math.PI) / 180);
+  ctx.scale(scale, frame.scaleY ?? scale);
+  drawAdjusted(ctx, img, frame);
+  ctx.restore();
+}
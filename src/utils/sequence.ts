@@ -0,0 +1,89 @@
+import { Frame } from '../types';
+import { CanvasSettings, outputSize, renderFrame } from './render';
+import { frameSimilarity } from './frame-diff';
+
+// Copy of a frame with a fresh id; the source file and preview URL are shared
+function copyFrame(frame: Frame): Frame {
+  return { ...frame, id: Math.random().toString(36).substr(2, 9) };
+}
+
+export function reverseFrames(frames: Frame[]): Frame[] {
+  return [...frames].reverse();
+}
+
+// Boomerang: plays forward then backward; the end frames aren't repeated at the turns
+export function pingPongFrames(frames: Frame[]): Frame[] {
+  return [...frames, ...frames.slice(1, -1).reverse().map(copyFrame)];
+}
+
+// Each selected frame is followed by its copy
+export function duplicateFrames(frames: Frame[], ids: Set<string>): Frame[] {
+  return frames.flatMap(f => ids.has(f.id) ? [f, copyFrame(f)] : [f]);
+}
+
+// Plays frames[start..end] (inclusive) `times` times in total
+export function repeatRange(frames: Frame[], start: number, end: number, times: number): Frame[] {
+  const range = frames.slice(start, end + 1);
+  const copies = Array.from({ length: Math.max(0, times - 1) }, () => range.map(copyFrame)).flat();
+  return [...frames.slice(0, end + 1), ...copies, ...frames.slice(end + 1)];
+}
+
+/**
+ * Merges runs of consecutive frames that render (nearly) the same into their first frame,
+ * which takes the summed delay. Frames are compared as rendered in the output at full size,
+ * so transforms and the canvas crop are taken into account and small changes aren't scaled away.
+ */
+export async function mergeDuplicateFrames(frames: Frame[], canvas: CanvasSettings, threshold: number): Promise<Frame[]> {
+  const { width, height } = outputSize(canvas);
+  const target = new OffscreenCanvas(width, height);
+  const ctx = target.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Could not get canvas context');
+
+  const merged: Frame[] = [];
+  let previous: Uint8ClampedArray | null = null;
+  for (const frame of frames) {
+    const bitmap = await createImageBitmap(frame.file);
+    renderFrame(ctx, bitmap, frame, canvas);
+    bitmap.close();
+    const pixels = ctx.getImageData(0, 0, width, height).data;
+
+    const last = merged[merged.length - 1];
+    if (previous && last && frameSimilarity(previous, pixels, width, height) >= threshold) {
+      // Compare against the run's first frame so a slow drift can't chain into one long run
+      merged[merged.length - 1] = { ...last, delay: last.delay + frame.delay };
+    } else {
+      merged.push(frame);
+      previous = pixels;
+    }
+  }
+  return merged;
+}
+
+// Shifts every selected frame one place earlier (-1) or later (1); a block stops at the list edge
+export function moveFrames(frames: Frame[], ids: Set<string>, direction: -1 | 1): Frame[] {
+  const list = [...frames];
+  const indices = list.map((_, i) => i);
+  if (direction === 1) indices.reverse();
+  for (const i of indices) {
+    const j = i + direction;
+    if (j < 0 || j >= list.length || !ids.has(list[i].id) || ids.has(list[j].id)) continue;
+    [list[i], list[j]] = [list[j], list[i]];
+  }
+  return list;
+}
+
+// Selected frames, in their current order, moved as one block to the start or the end
+export function moveFramesToEdge(frames: Frame[], ids: Set<string>, edge: 'start' | 'end'): Frame[] {
+  const selected = frames.filter(f => ids.has(f.id));
+  const rest = frames.filter(f => !ids.has(f.id));
+  return edge === 'start' ? [...selected, ...rest] : [...rest, ...selected];
+}
+
+// Selected frames moved as one block next to `targetId` (used by group drag-sorting)
+export function moveFramesNextTo(frames: Frame[], ids: Set<string>, targetId: string, after: boolean): Frame[] {
+  if (ids.has(targetId)) return frames;
+  const selected = frames.filter(f => ids.has(f.id));
+  const rest = frames.filter(f => !ids.has(f.id));
+  const at = rest.findIndex(f => f.id === targetId) + (after ? 1 : 0);
+  return [...rest.slice(0, at), ...selected, ...rest.slice(at)];
+}
@@ -0,0 +1,125 @@
+import type { EncodeSettings, OutputFormat } from '../workers/encoder.worker';
+
+// Output size reduction tried once no quality level fits, mildest first
+export interface BudgetStep {
+  scale: number; // Multiplier on the output scale
+  keepEvery: number; // 1 = every frame, 2 = every second frame, ...
+}
+
+export const BUDGET_STEPS: BudgetStep[] = [
+  { scale: 1, keepEvery: 1 },
+  { scale: 0.75, keepEvery: 1 },
+  { scale: 0.5, keepEvery: 1 },
+  { scale: 0.5, keepEvery: 2 },
+  { scale: 0.35, keepEvery: 2 },
+  { scale: 0.25, keepEvery: 3 }
+];
+
+export const BUDGET_FORMATS: OutputFormat[] = ['apng', 'webp', 'gif'];
+
+export interface BudgetLevel {
+  label: string;
+  settings: EncodeSettings;
+}
+
+/**
+ * Encoder settings from the current ones down to the smallest the format allows, best first.
+ * Sizes are assumed to shrink monotonically along the list so it can be bisected.
+ */
+export function budgetLevels(format: OutputFormat, settings: EncodeSettings): BudgetLevel[] {
+  if (format === 'webp') {
+    const { webp } = settings;
+    const current = webp.mode === 'lossless' ? 1 : webp.quality;
+    const lossy = [0.9, 0.8, 0.7, 0.6, 0.5, 0.4, 0.3, 0.2].filter(q => q < current - 0.001);
+    return [
+      { label: webp.mode === 'lossless' ? 'lossless' : `quality ${Math.round(webp.quality * 100)}%`, settings },
+      ...lossy.map(quality => ({
+        label: `quality ${Math.round(quality * 100)}%`,
+        settings: { ...settings, webp: { ...webp, mode: 'lossy' as const, quality } }
+      }))
+    ];
+  }
+  if (format === 'apng') {
+    const { apng } = settings;
+    const palettes = [256, 128, 64, 32, 16].filter(c => apng.colors === 0 || c < apng.colors);
+    return [
+      { label: apng.colors === 0 ? 'lossless' : `${apng.colors} colors`, settings },
+      ...palettes.map(colors => ({ label: `${colors} colors`, settings: { ...settings, apng: { ...apng, colors } } }))
+    ];
+  }
+  const palettes = [128, 64, 32, 16].filter(c => c < settings.gifColors);
+  return [
+    { label: `${settings.gifColors} colors`, settings },
+    ...palettes.map(gifColors => ({ label: `${gifColors} colors`, settings: { ...settings, gifColors } }))
+  ];
+}
+
+// Keeps every n-th frame; the delays of dropped frames go to the kept frame before them so the timing holds
+export function dropFrames<T extends { delay: number }>(frames: T[], keepEvery: number): T[] {
+  if (keepEvery <= 1) return frames;
+  const kept: T[] = [];
+  frames.forEach((frame, i) => {
+    if (i % keepEvery === 0) kept.push({ ...frame });
+    else kept[kept.length - 1].delay += frame.delay;
+  });
+  return kept;
+}
+
+export interface BudgetResult<R> {
+  result: R;
+  level: number; // Index into the levels
+  step: BudgetStep;
+  attempts: number;
+}
+
+/**
+ * Finds the mildest step and, within it, the best level whose output fits in `maxBytes`.
+ * Each step is tried at its best and worst level first, then bisected in between.
+ */
+export async function searchBudget<R extends { blob: Blob }>(
+  levels: BudgetLevel[],
+  maxBytes: number,
+  encode: (level: BudgetLevel, step: BudgetStep, attempt: number) => Promise<R>
+): Promise<BudgetResult<R>> {
+  let attempts = 0;
+  let smallest = Infinity;
+  const tryLevel = async (level: number, step: BudgetStep) => {
+    const result = await encode(levels[level], step, ++attempts);
+    smallest = Math.min(smallest, result.blob.size);
+    return result.blob.size <= maxBytes ? result : null;
+  };
+
+  for (const step of BUDGET_STEPS) {
+    const best = await tryLevel(0, step);
+    if (best) return { result: best, level: 0, step, attempts };
+
+    let lo = 0; // Known too big
+    let hi = levels.length - 1;
+    if (hi === lo) continue;
+    let fit = await tryLevel(hi, step);
+    if (!fit) continue;
+    while (hi - lo > 1) {
+      const mid = (lo + hi) >> 1;
+      const result = await tryLevel(mid, step);
+      if (result) {
+        hi = mid;
+        fit = result;
+      } else {
+        lo = mid;
+      }
+    }
+    return { result: fit, level: hi, step, attempts };
+  }
+  throw new Error(`Could not get under the size limit, the smallest attempt was ${(smallest / 1024 / 1024).toFixed(2)} MB`);
+}
+
+// What the search had to give up, e.g. "quality 90% → 60%, scale 75%, every 2nd frame (24 → 12)"
+export function describeBudget(levels: BudgetLevel[], { level, step, attempts }: BudgetResult<unknown>, frameCount: number) {
+  const parts: string[] = [];
+  if (level > 0) parts.push(`${levels[0].label} → ${levels[level].label}`);
+  if (step.scale < 1) parts.push(`scale ${Math.round(step.scale * 100)}%`);
+  if (step.keepEvery > 1) {
+    parts.push(`every ${step.keepEvery === 2 ? '2nd' : step.keepEvery === 3 ? '3rd' : `${step.keepEvery}th`} frame (${frameCount} → ${Math.ceil(frameCount / step.keepEvery)})`);
+  }
+  return `${parts.length > 0 ? parts.join(', ') : `no changes (${levels[0].label})`} · ${attempts} ${attempts === 1 ? 'attempt' : 'attempts'}`;
+}
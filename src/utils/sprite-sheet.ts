@@ -0,0 +1,172 @@
+// Sprite sheet slicing (grid or TexturePacker / Aseprite JSON atlas) and atlas export
+
+export interface GridOptions {
+  columns: number;
+  rows: number;
+  margin: number; // Border around the whole sheet, px
+  spacing: number; // Gap between cells, px
+}
+
+export interface SpriteRect {
+  name: string;
+  x: number; // Region in the sheet; for rotated sprites it is height x width
+  y: number;
+  width: number; // Size of the trimmed sprite before rotation
+  height: number;
+  rotated: boolean; // Stored rotated 90° clockwise (TexturePacker)
+  offsetX: number; // Position of the trimmed sprite inside the source size
+  offsetY: number;
+  sourceWidth: number;
+  sourceHeight: number;
+  duration?: number; // ms (Aseprite)
+}
+
+interface AtlasRect { x: number; y: number; w: number; h: number }
+
+interface AtlasFrame {
+  filename?: string;
+  frame: AtlasRect;
+  rotated?: boolean;
+  trimmed?: boolean;
+  spriteSourceSize?: AtlasRect;
+  sourceSize?: { w: number; h: number };
+  duration?: number;
+}
+
+// JSON Hash layout shared by TexturePacker and Aseprite
+export interface SpriteAtlas {
+  frames: Record<string, AtlasFrame>;
+  meta: {
+    app: string;
+    version: string;
+    image: string;
+    format: string;
+    size: { w: number; h: number };
+    scale: string;
+    frameTags: { name: string; from: number; to: number; direction: string }[];
+  };
+}
+
+// Cells of an evenly divided sheet, row by row; the cell size follows from the sheet size
+export function gridRects(sheetWidth: number, sheetHeight: number, { columns, rows, margin, spacing }: GridOptions): SpriteRect[] {
+  const width = Math.floor((sheetWidth - 2 * margin - (columns - 1) * spacing) / columns);
+  const height = Math.floor((sheetHeight - 2 * margin - (rows - 1) * spacing) / rows);
+  if (width < 1 || height < 1) throw new Error('Grid cells would be empty, check rows, columns, margin and spacing');
+
+  const rects: SpriteRect[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < columns; col++) {
+      rects.push({
+        name: `sprite_${rects.length}.png`,
+        x: margin + col * (width + spacing),
+        y: margin + row * (height + spacing),
+        width,
+        height,
+        rotated: false,
+        offsetX: 0,
+        offsetY: 0,
+        sourceWidth: width,
+        sourceHeight: height
+      });
+    }
+  }
+  return rects;
+}
+
+// Reads a JSON Hash or JSON Array atlas (TexturePacker, Aseprite and compatible exporters)
+export function parseAtlas(text: string): SpriteRect[] {
+  const json = JSON.parse(text);
+  const frames: [string, AtlasFrame][] = Array.isArray(json?.frames)
+    ? json.frames.map((f: AtlasFrame, i: number) => [f.filename ?? `sprite_${i}.png`, f])
+    : json?.frames && typeof json.frames === 'object' ? Object.entries(json.frames) : [];
+  if (frames.length === 0) throw new Error('Atlas has no frames (expected a TexturePacker or Aseprite JSON file)');
+
+  return frames.map(([name, f]) => {
+    if (!f?.frame) throw new Error(`Atlas frame "${name}" has no frame rectangle`);
+    const source = f.spriteSourceSize ?? { x: 0, y: 0, w: f.frame.w, h: f.frame.h };
+    return {
+      name,
+      x: f.frame.x,
+      y: f.frame.y,
+      width: f.frame.w,
+      height: f.frame.h,
+      rotated: !!f.rotated,
+      offsetX: source.x,
+      offsetY: source.y,
+      sourceWidth: f.sourceSize?.w ?? f.frame.w,
+      sourceHeight: f.sourceSize?.h ?? f.frame.h,
+      duration: f.duration
+    };
+  });
+}
+
+// Cuts one sprite out of the sheet, undoing rotation and trimming
+export function sliceSprite(sheet: CanvasImageSource, rect: SpriteRect): ImageData {
+  const canvas = new OffscreenCanvas(rect.sourceWidth, rect.sourceHeight);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Could not get canvas context');
+  ctx.translate(rect.offsetX, rect.offsetY);
+  if (rect.rotated) {
+    // The sheet holds the sprite turned 90° clockwise, turn it back
+    ctx.transform(0, -1, 1, 0, 0, rect.height);
+    ctx.drawImage(sheet, rect.x, rect.y, rect.height, rect.width, 0, 0, rect.height, rect.width);
+  } else {
+    ctx.drawImage(sheet, rect.x, rect.y, rect.width, rect.height, 0, 0, rect.width, rect.height);
+  }
+  return ctx.getImageData(0, 0, rect.sourceWidth, rect.sourceHeight);
+}
+
+// True when every pixel is fully transparent (unused grid cells)
+export function isEmptySprite(imageData: ImageData) {
+  const { data } = imageData;
+  for (let i = 3; i < data.length; i += 4) if (data[i] !== 0) return false;
+  return true;
+}
+
+// Cell positions for `count` frames of width x height packed row by row
+export function sheetLayout(count: number, width: number, height: number, columns: number, padding: number) {
+  const cols = Math.max(1, Math.min(count, columns > 0 ? columns : Math.ceil(Math.sqrt(count))));
+  const rows = Math.ceil(count / cols);
+  return {
+    width: cols * width + (cols - 1) * padding,
+    height: rows * height + (rows - 1) * padding,
+    cells: Array.from({ length: count }, (_, i) => ({
+      x: (i % cols) * (width + padding),
+      y: Math.floor(i / cols) * (height + padding)
+    }))
+  };
+}
+
+// JSON Hash atlas for an exported sheet; `image` is filled in with the final file name on download
+export function buildAtlas(
+  cells: { x: number; y: number }[],
+  width: number,
+  height: number,
+  durations: number[],
+  sheetWidth: number,
+  sheetHeight: number
+): SpriteAtlas {
+  const frames: Record<string, AtlasFrame> = {};
+  cells.forEach((cell, i) => {
+    frames[`frame_${i}`] = {
+      frame: { x: cell.x, y: cell.y, w: width, h: height },
+      rotated: false,
+      trimmed: false,
+      spriteSourceSize: { x: 0, y: 0, w: width, h: height },
+      sourceSize: { w: width, h: height },
+      duration: durations[i]
+    };
+  });
+  return {
+    frames,
+    meta: {
+      app: 'animated-image-creator',
+      version: '1.0',
+      image: '',
+      format: 'RGBA8888',
+      size: { w: sheetWidth, h: sheetHeight },
+      scale: '1',
+      frameTags: [{ name: 'animation', from: 0, to: cells.length - 1, direction: 'forward' }]
+    }
+  };
+}
@@ -0,0 +1,125 @@
+import { FrameTransform, defaultCanvas, renderFrame } from './render';
+import { Easing } from './keyframes';
+
+export type TransitionType = 'crossfade' | 'slide' | 'wipe' | 'zoom';
+export type TransitionDirection = 'left' | 'right' | 'up' | 'down';
+
+export const TRANSITIONS: { value: TransitionType; label: string }[] = [
+  { value: 'crossfade', label: 'Crossfade' },
+  { value: 'slide', label: 'Slide' },
+  { value: 'wipe', label: 'Wipe' },
+  { value: 'zoom', label: 'Zoom' }
+];
+
+export const TRANSITION_DIRECTIONS: { value: TransitionDirection; label: string }[] = [
+  { value: 'left', label: '← Left' },
+  { value: 'right', label: '→ Right' },
+  { value: 'up', label: '↑ Up' },
+  { value: 'down', label: '↓ Down' }
+];
+
+export interface TransitionOptions {
+  type: TransitionType;
+  direction: TransitionDirection; // Slide and wipe only
+  count: number; // Generated in-between frames
+  duration: number; // ms, split over the generated frames
+  easing: Easing;
+}
+
+type Layer = OffscreenCanvas;
+type Source = CanvasImageSource & { width: number; height: number };
+
+// Both frames rendered with their own transforms onto full composition-size layers
+export function transitionLayers(from: Source, fromFrame: FrameTransform, to: Source, toFrame: FrameTransform, width: number, height: number) {
+  const render = (img: Source, frame: FrameTransform) => {
+    const layer = new OffscreenCanvas(width, height);
+    const ctx = layer.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+    renderFrame(ctx, img, frame, defaultCanvas(width, height));
+    return layer;
+  };
+  return { from: render(from, fromFrame), to: render(to, toFrame) };
+}
+
+/**
+ * Draws the in-between state at progress t (0 = first frame, 1 = second frame)
+ * into an untransformed context the size of the layers.
+ * Fades use additive blending of the two weighted layers, which is a true linear blend
+ * of premultiplied pixels, so transparent areas fade correctly too.
+ */
+export function drawTransition(
+  ctx: OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D,
+  layers: { from: Layer; to: Layer },
+  type: TransitionType,
+  direction: TransitionDirection,
+  t: number
+) {
+  const { width, height } = layers.from;
+  const horizontal = direction === 'left' || direction === 'right';
+  const sign = direction === 'left' || direction === 'up' ? -1 : 1;
+  const size = horizontal ? width : height;
+
+  ctx.save();
+  ctx.clearRect(0, 0, width, height);
+  switch (type) {
+    case 'crossfade':
+      ctx.globalAlpha = 1 - t;
+      ctx.drawImage(layers.from, 0, 0);
+      ctx.globalCompositeOperation = 'lighter';
+      ctx.globalAlpha = t;
+      ctx.drawImage(layers.to, 0, 0);
+      break;
+
+    case 'slide': {
+      // Both frames move in `direction`; the second one pushes the first off the canvas
+      const shift = sign * t * size;
+      const back = -sign * size;
+      ctx.drawImage(layers.from, horizontal ? shift : 0, horizontal ? 0 : shift);
+      ctx.drawImage(layers.to, horizontal ? shift + back : 0, horizontal ? 0 : shift + back);
+      break;
+    }
+
+    case 'wipe': {
+      // An edge travels in `direction` and uncovers the second frame behind it
+      const edge = t * size;
+      const start = sign > 0 ? 0 : size - edge;
+      ctx.drawImage(layers.from, 0, 0);
+      ctx.beginPath();
+      if (horizontal) ctx.rect(start, 0, edge, height);
+      else ctx.rect(0, start, width, edge);
+      ctx.clip();
+      ctx.clearRect(0, 0, width, height);
+      ctx.drawImage(layers.to, 0, 0);
+      break;
+    }
+
+    case 'zoom': {
+      // First frame zooms in towards the viewer while the second grows into place
+      const drawScaled = (layer: Layer, scale: number, alpha: number) => {
+        ctx.save();
+        ctx.globalAlpha = alpha;
+        ctx.translate((width - width * scale) / 2, (height - height * scale) / 2);
+        ctx.scale(scale, scale);
+        ctx.drawImage(layer, 0, 0);
+        ctx.restore();
+      };
+      drawScaled(layers.from, 1 + t, 1 - t);
+      ctx.globalCompositeOperation = 'lighter';
+      drawScaled(layers.to, 0.5 + 0.5 * t, t);
+      break;
+    }
+  }
+  ctx.restore();
+}
+
+// Splits a total duration over `count` frames; rounding is spread so the delays add up exactly
+export function transitionDelays(duration: number, count: number) {
+  return Array.from({ length: count }, (_, i) =>
+    Math.round(((i + 1) * duration) / count) - Math.round((i * duration) / count)
+  );
+}
+
+// Progress of each generated frame; 0 and 1 are the existing frames, so they are skipped
+export function transitionSteps(count: number) {
+  return Array.from({ length: count }, (_, i) => (i + 1) / (count + 1));
+}
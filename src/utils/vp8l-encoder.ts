@@ -0,0 +1,595 @@
+// Lossless WebP (VP8L) bitstream encoder.
+// Uses either the color-indexing transform (<= 256 colors) or subtract-green + predictor
+// transforms, followed by LZ77 backward references and one group of canonical prefix codes.
+
+const MAX_CODE_LENGTH = 15;
+const MAX_CL_CODE_LENGTH = 7;
+const NUM_LENGTH_CODES = 24;
+const NUM_DISTANCE_CODES = 40;
+const MAX_MATCH_LENGTH = 4096;
+const MIN_MATCH_LENGTH = 3;
+const MAX_CHAIN = 32;
+const WINDOW_SIZE = (1 << 20) - 120;
+const CODE_LENGTH_ORDER = [17, 18, 0, 1, 2, 3, 4, 5, 16, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15];
+
+// (xoffset, yoffset) pairs for distance codes 1..120, nearest neighbours first
+const DISTANCE_MAP = [
+  0, 1, 1, 0, 1, 1, -1, 1, 0, 2, 2, 0, 1, 2, -1, 2, 2, 1, -2, 1, 2, 2, -2, 2, 0, 3, 3, 0,
+  1, 3, -1, 3, 3, 1, -3, 1, 2, 3, -2, 3, 3, 2, -3, 2, 0, 4, 4, 0, 1, 4, -1, 4, 4, 1, -4, 1,
+  3, 3, -3, 3, 2, 4, -2, 4, 4, 2, -4, 2, 0, 5, 3, 4, -3, 4, 4, 3, -4, 3, 5, 0, 1, 5, -1, 5,
+  5, 1, -5, 1, 2, 5, -2, 5, 5, 2, -5, 2, 4, 4, -4, 4, 3, 5, -3, 5, 5, 3, -5, 3, 0, 6, 6, 0,
+  1, 6, -1, 6, 6, 1, -6, 1, 2, 6, -2, 6, 6, 2, -6, 2, 4, 5, -4, 5, 5, 4, -5, 4, 3, 6, -3, 6,
+  6, 3, -6, 3, 0, 7, 7, 0, 1, 7, -1, 7, 5, 5, -5, 5, 7, 1, -7, 1, 4, 6, -4, 6, 6, 4, -6, 4,
+  2, 7, -2, 7, 7, 2, -7, 2, 3, 7, -3, 7, 7, 3, -7, 3, 5, 6, -5, 6, 6, 5, -6, 5, 8, 0, 4, 7,
+  -4, 7, 7, 4, -7, 4, 8, 1, 8, 2, 6, 6, -6, 6, 8, 3, 5, 7, -5, 7, 7, 5, -7, 5, 8, 4, 6, 7,
+  -6, 7, 7, 6, -7, 6, 8, 5, 7, 7, -7, 7, 8, 6, 8, 7
+];
+
+class BitWriter {
+  private buf = new Uint8Array(1 << 16);
+  private pos = 0;
+  private acc = 0;
+  private count = 0;
+
+  // Writes up to 16 bits, least significant bit first
+  write(value: number, nBits: number) {
+    if (nBits > 16) {
+      this.write(value & 0xffff, 16);
+      this.write(value >>> 16, nBits - 16);
+      return;
+    }
+    this.acc |= value << this.count;
+    this.count += nBits;
+    while (this.count >= 8) {
+      if (this.pos === this.buf.length) {
+        const grown = new Uint8Array(this.buf.length * 2);
+        grown.set(this.buf);
+        this.buf = grown;
+      }
+      this.buf[this.pos++] = this.acc & 0xff;
+      this.acc >>>= 8;
+      this.count -= 8;
+    }
+  }
+
+  finish() {
+    if (this.count > 0) this.write(0, 8 - this.count);
+    return this.buf.slice(0, this.pos);
+  }
+}
+
+// ---- Prefix codes ----
+
+interface PrefixCode {
+  lengths: Uint8Array;
+  codes: Uint16Array; // Bit-reversed canonical codes, ready for LSB-first writing
+  single: boolean; // Only one used symbol: the decoder reads no bits for it
+}
+
+function huffmanLengths(freqs: Uint32Array, maxLength: number): Uint8Array {
+  const n = freqs.length;
+  const lengths = new Uint8Array(n);
+  let counts = Array.from(freqs);
+
+  for (;;) {
+    const used: number[] = [];
+    for (let i = 0; i < n; i++) if (counts[i] > 0) used.push(i);
+    if (used.length === 0) return lengths;
+    if (used.length === 1) { lengths[used[0]] = 1; return lengths; }
+
+    // Build the tree with a sorted queue of (weight, node)
+    const weight: number[] = [];
+    const parent: number[] = [];
+    const queue: number[] = [];
+    for (const sym of used) {
+      weight.push(counts[sym]);
+      parent.push(-1);
+      queue.push(weight.length - 1);
+    }
+    queue.sort((a, b) => weight[a] - weight[b]);
+    while (queue.length > 1) {
+      const a = queue.shift()!;
+      const b = queue.shift()!;
+      weight.push(weight[a] + weight[b]);
+      parent.push(-1);
+      const node = weight.length - 1;
+      parent[a] = node;
+      parent[b] = node;
+      let at = 0;
+      while (at < queue.length && weight[queue[at]] <= weight[node]) at++;
+      queue.splice(at, 0, node);
+    }
+
+    let maxDepth = 0;
+    used.forEach((sym, leaf) => {
+      let depth = 0;
+      for (let p = leaf; parent[p] !== -1; p = parent[p]) depth++;
+      lengths[sym] = depth;
+      if (depth > maxDepth) maxDepth = depth;
+    });
+    if (maxDepth <= maxLength) return lengths;
+
+    // Too deep: flatten the distribution and rebuild
+    counts = counts.map(c => (c > 0 ? Math.max(1, c >> 1) : 0));
+    lengths.fill(0);
+  }
+}
+
+function reverseBits(code: number, len: number) {
+  let r = 0;
+  for (let i = 0; i < len; i++) {
+    r = (r << 1) | (code & 1);
+    code >>= 1;
+  }
+  return r;
+}
+
+function buildCode(freqs: Uint32Array, maxLength = MAX_CODE_LENGTH): PrefixCode {
+  const lengths = huffmanLengths(freqs, maxLength);
+  const codes = new Uint16Array(lengths.length);
+  const blCount = new Uint16Array(maxLength + 1);
+  let usedCount = 0;
+  for (const l of lengths) if (l > 0) { blCount[l]++; usedCount++; }
+
+  const nextCode = new Uint16Array(maxLength + 2);
+  let code = 0;
+  for (let bits = 1; bits <= maxLength; bits++) {
+    code = (code + blCount[bits - 1]) << 1;
+    nextCode[bits] = code;
+  }
+  for (let i = 0; i < lengths.length; i++) {
+    const len = lengths[i];
+    if (len > 0) codes[i] = reverseBits(nextCode[len]++, len);
+  }
+  return { lengths, codes, single: usedCount <= 1 };
+}
+
+function writeSymbol(bw: BitWriter, code: PrefixCode, symbol: number) {
+  if (code.single) return;
+  bw.write(code.codes[symbol], code.lengths[symbol]);
+}
+
+// Serializes code lengths with the code-length code (symbols 0-15 literal, 16/17/18 repeats)
+function writeCodeLengths(bw: BitWriter, lengths: Uint8Array) {
+  const tokens: number[] = []; // pairs of (symbol, extra bits value)
+  let prev = 8;
+  for (let i = 0; i < lengths.length;) {
+    const len = lengths[i];
+    let run = 1;
+    while (i + run < lengths.length && lengths[i + run] === len) run++;
+
+    if (len === 0) {
+      if (run >= 11) {
+        const r = Math.min(run, 138);
+        tokens.push(18, r - 11);
+        i += r;
+      } else if (run >= 3) {
+        tokens.push(17, run - 3);
+        i += run;
+      } else {
+        tokens.push(0, 0);
+        i++;
+      }
+    } else if (len === prev && run >= 3) {
+      const r = Math.min(run, 6);
+      tokens.push(16, r - 3);
+      i += r;
+    } else {
+      tokens.push(len, 0);
+      prev = len;
+      i++;
+    }
+  }
+
+  const freqs = new Uint32Array(19);
+  for (let t = 0; t < tokens.length; t += 2) freqs[tokens[t]]++;
+  const clCode = buildCode(freqs, MAX_CL_CODE_LENGTH);
+
+  let numCodes = 19;
+  while (numCodes > 4 && clCode.lengths[CODE_LENGTH_ORDER[numCodes - 1]] === 0) numCodes--;
+  bw.write(numCodes - 4, 4);
+  for (let i = 0; i < numCodes; i++) bw.write(clCode.lengths[CODE_LENGTH_ORDER[i]], 3);
+
+  bw.write(0, 1); // max_symbol = alphabet size
+  for (let t = 0; t < tokens.length; t += 2) {
+    const sym = tokens[t];
+    writeSymbol(bw, clCode, sym);
+    if (sym === 16) bw.write(tokens[t + 1], 2);
+    else if (sym === 17) bw.write(tokens[t + 1], 3);
+    else if (sym === 18) bw.write(tokens[t + 1], 7);
+  }
+}
+
+function writePrefixCode(bw: BitWriter, code: PrefixCode) {
+  const used: number[] = [];
+  for (let i = 0; i < code.lengths.length && used.length <= 2; i++) {
+    if (code.lengths[i] > 0) used.push(i);
+  }
+
+  if (used.length === 0) {
+    // Simple code with one (unused) symbol 0
+    bw.write(1, 1); bw.write(0, 1); bw.write(0, 1); bw.write(0, 1);
+    return;
+  }
+  if (used.length <= 2 && used[used.length - 1] < 256) {
+    // Simple code: 1 or 2 symbols of at most 8 bits
+    bw.write(1, 1);
+    bw.write(used.length - 1, 1);
+    if (used[0] < 2) {
+      bw.write(0, 1);
+      bw.write(used[0], 1);
+    } else {
+      bw.write(1, 1);
+      bw.write(used[0], 8);
+    }
+    if (used.length === 2) bw.write(used[1], 8);
+    return;
+  }
+  bw.write(0, 1);
+  writeCodeLengths(bw, code.lengths);
+}
+
+// ---- LZ77 ----
+
+// Each entry is either a literal ARGB pixel or a (length, distance code) copy
+interface Tokens {
+  kind: Uint8Array; // 0 = literal, 1 = copy
+  a: Uint32Array; // literal pixel, or copy length
+  b: Uint32Array; // copy distance code
+  count: number;
+}
+
+function prefixEncode(value: number): { prefix: number; extraBits: number; extra: number } {
+  const d = value - 1;
+  if (d < 4) return { prefix: d, extraBits: 0, extra: 0 };
+  const highest = 31 - Math.clz32(d);
+  const second = (d >> (highest - 1)) & 1;
+  const extraBits = highest - 1;
+  return { prefix: 2 * highest + second, extraBits, extra: d & ((1 << extraBits) - 1) };
+}
+
+function distanceToCode(dist: number, planeCodes: Map<number, number>) {
+  return planeCodes.get(dist) ?? dist + 120;
+}
+
+function buildPlaneCodes(width: number) {
+  const map = new Map<number, number>();
+  for (let i = 0; i < 120; i++) {
+    const dist = Math.max(1, DISTANCE_MAP[i * 2] + DISTANCE_MAP[i * 2 + 1] * width);
+    if (!map.has(dist)) map.set(dist, i + 1);
+  }
+  return map;
+}
+
+function findBackwardReferences(pixels: Uint32Array, width: number): Tokens {
+  const n = pixels.length;
+  const tokens: Tokens = {
+    kind: new Uint8Array(n),
+    a: new Uint32Array(n),
+    b: new Uint32Array(n),
+    count: 0
+  };
+  const planeCodes = buildPlaneCodes(width);
+  const HASH_BITS = 16;
+  const head = new Int32Array(1 << HASH_BITS).fill(-1);
+  const chain = new Int32Array(n);
+
+  const hashAt = (i: number) => {
+    const h = Math.imul(pixels[i], 0x9e3779b1) ^ Math.imul(pixels[i + 1], 0x85ebca6b);
+    return (h >>> (32 - HASH_BITS));
+  };
+  const insert = (i: number) => {
+    if (i + 1 >= n) return;
+    const h = hashAt(i);
+    chain[i] = head[h];
+    head[h] = i;
+  };
+  const matchLength = (i: number, j: number, max: number) => {
+    let len = 0;
+    while (len < max && pixels[i + len] === pixels[j + len]) len++;
+    return len;
+  };
+
+  let i = 0;
+  while (i < n) {
+    let bestLen = 0;
+    let bestDist = 0;
+    const maxLen = Math.min(MAX_MATCH_LENGTH, n - i);
+
+    if (maxLen >= MIN_MATCH_LENGTH) {
+      // Runs and the row above are cheap to reference, always try them
+      for (const dist of [1, width]) {
+        if (dist <= i) {
+          const len = matchLength(i, i - dist, maxLen);
+          if (len > bestLen) { bestLen = len; bestDist = dist; }
+        }
+      }
+      if (i + 1 < n && bestLen < maxLen) {
+        let cand = head[hashAt(i)];
+        for (let steps = 0; cand >= 0 && steps < MAX_CHAIN; steps++) {
+          const dist = i - cand;
+          if (dist > WINDOW_SIZE) break;
+          const len = matchLength(i, cand, maxLen);
+          if (len > bestLen) {
+            bestLen = len;
+            bestDist = dist;
+            if (len === maxLen) break;
+          }
+          cand = chain[cand];
+        }
+      }
+    }
+
+    const t = tokens.count++;
+    if (bestLen >= MIN_MATCH_LENGTH) {
+      tokens.kind[t] = 1;
+      tokens.a[t] = bestLen;
+      tokens.b[t] = distanceToCode(bestDist, planeCodes);
+      for (let k = 0; k < bestLen; k++) insert(i + k);
+      i += bestLen;
+    } else {
+      tokens.a[t] = pixels[i];
+      insert(i);
+      i++;
+    }
+  }
+  return tokens;
+}
+
+// Writes an entropy-coded image: color cache bit, [meta bit], 5 prefix codes, then the data
+function writeImageData(bw: BitWriter, pixels: Uint32Array, width: number, isMainImage: boolean) {
+  const tokens = findBackwardReferences(pixels, width);
+
+  const green = new Uint32Array(256 + NUM_LENGTH_CODES);
+  const red = new Uint32Array(256);
+  const blue = new Uint32Array(256);
+  const alpha = new Uint32Array(256);
+  const dist = new Uint32Array(NUM_DISTANCE_CODES);
+
+  for (let t = 0; t < tokens.count; t++) {
+    if (tokens.kind[t] === 0) {
+      const p = tokens.a[t];
+      green[(p >>> 8) & 0xff]++;
+      red[(p >>> 16) & 0xff]++;
+      blue[p & 0xff]++;
+      alpha[p >>> 24]++;
+    } else {
+      green[256 + prefixEncode(tokens.a[t]).prefix]++;
+      dist[prefixEncode(tokens.b[t]).prefix]++;
+    }
+  }
+
+  bw.write(0, 1); // No color cache
+  if (isMainImage) bw.write(0, 1); // No meta prefix codes
+
+  const codes = [green, red, blue, alpha, dist].map(f => buildCode(f));
+  codes.forEach(c => writePrefixCode(bw, c));
+  const [gCode, rCode, bCode, aCode, dCode] = codes;
+
+  for (let t = 0; t < tokens.count; t++) {
+    if (tokens.kind[t] === 0) {
+      const p = tokens.a[t];
+      writeSymbol(bw, gCode, (p >>> 8) & 0xff);
+      writeSymbol(bw, rCode, (p >>> 16) & 0xff);
+      writeSymbol(bw, bCode, p & 0xff);
+      writeSymbol(bw, aCode, p >>> 24);
+    } else {
+      const len = prefixEncode(tokens.a[t]);
+      writeSymbol(bw, gCode, 256 + len.prefix);
+      if (len.extraBits) bw.write(len.extra, len.extraBits);
+      const d = prefixEncode(tokens.b[t]);
+      writeSymbol(bw, dCode, d.prefix);
+      if (d.extraBits) bw.write(d.extra, d.extraBits);
+    }
+  }
+}
+
+// ---- Transforms ----
+
+function collectPalette(pixels: Uint32Array): number[] | null {
+  const seen = new Set<number>();
+  for (let i = 0; i < pixels.length; i++) {
+    seen.add(pixels[i]);
+    if (seen.size > 256) return null;
+  }
+  return Array.from(seen).sort((a, b) => a - b);
+}
+
+function writeColorIndexing(bw: BitWriter, pixels: Uint32Array, width: number, height: number, palette: number[]) {
+  bw.write(1, 1); // Transform present
+  bw.write(3, 2); // COLOR_INDEXING_TRANSFORM
+  bw.write(palette.length - 1, 8);
+
+  // Palette is stored as a width x 1 image, each entry delta-coded against the previous one
+  const table = new Uint32Array(palette.length);
+  for (let i = 0; i < palette.length; i++) {
+    const cur = palette[i];
+    const prev = i === 0 ? 0 : palette[i - 1];
+    let delta = 0;
+    for (let shift = 0; shift < 32; shift += 8) {
+      delta |= (((cur >>> shift) - (prev >>> shift)) & 0xff) << shift;
+    }
+    table[i] = delta >>> 0;
+  }
+  writeImageData(bw, table, palette.length, false);
+
+  // Small palettes bundle several indices into one pixel
+  const widthBits = palette.length <= 2 ? 3 : palette.length <= 4 ? 2 : palette.length <= 16 ? 1 : 0;
+  const bitsPerPixel = 8 >> widthBits;
+  const packedWidth = Math.ceil(width / (1 << widthBits));
+  const lookup = new Map<number, number>();
+  palette.forEach((c, i) => lookup.set(c, i));
+
+  const packed = new Uint32Array(packedWidth * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = lookup.get(pixels[y * width + x])!;
+      const p = y * packedWidth + (x >> widthBits);
+      const shift = (x & ((1 << widthBits) - 1)) * bitsPerPixel;
+      packed[p] |= idx << (8 + shift);
+    }
+  }
+  for (let i = 0; i < packed.length; i++) packed[i] = (packed[i] | 0xff000000) >>> 0;
+  return { pixels: packed, width: packedWidth };
+}
+
+function subtractGreen(pixels: Uint32Array) {
+  for (let i = 0; i < pixels.length; i++) {
+    const p = pixels[i];
+    const g = (p >>> 8) & 0xff;
+    const r = (((p >>> 16) & 0xff) - g) & 0xff;
+    const b = ((p & 0xff) - g) & 0xff;
+    pixels[i] = ((p & 0xff00ff00) | (r << 16) | b) >>> 0;
+  }
+}
+
+function average2(a: number, b: number) {
+  let out = 0;
+  for (let shift = 0; shift < 32; shift += 8) {
+    out |= ((((a >>> shift) & 0xff) + ((b >>> shift) & 0xff)) >>> 1) << shift;
+  }
+  return out >>> 0;
+}
+
+function select(l: number, t: number, tl: number) {
+  // Picks whichever of L and T is closer to the gradient estimate L + T - TL
+  let pl = 0, pt = 0;
+  for (let shift = 0; shift < 32; shift += 8) {
+    const a = (l >>> shift) & 0xff, b = (t >>> shift) & 0xff, c = (tl >>> shift) & 0xff;
+    pl += Math.abs(b - c);
+    pt += Math.abs(a - c);
+  }
+  return pl < pt ? l : t;
+}
+
+// Predictor modes used here: 1 = L, 2 = T, 7 = avg(L, T), 11 = Select(L, T, TL)
+const PREDICTOR_MODES = [1, 2, 7, 11];
+
+function predict(mode: number, l: number, t: number, tl: number) {
+  switch (mode) {
+    case 1: return l;
+    case 2: return t;
+    case 7: return average2(l, t);
+    default: return select(l, t, tl);
+  }
+}
+
+function residual(p: number, pred: number) {
+  let out = 0;
+  for (let shift = 0; shift < 32; shift += 8) {
+    out |= ((((p >>> shift) & 0xff) - ((pred >>> shift) & 0xff)) & 0xff) << shift;
+  }
+  return out >>> 0;
+}
+
+function writePredictor(bw: BitWriter, pixels: Uint32Array, width: number, height: number) {
+  const sizeBits = 4; // 16x16 blocks
+  const blockSize = 1 << sizeBits;
+  const blocksW = Math.ceil(width / blockSize);
+  const blocksH = Math.ceil(height / blockSize);
+  const modes = new Uint32Array(blocksW * blocksH);
+  const out = new Uint32Array(pixels.length);
+
+  const predictAt = (mode: number, x: number, y: number) => {
+    const i = y * width + x;
+    // Edges are fixed by the format: first pixel predicts black, first row L, first column T
+    if (y === 0) return x === 0 ? 0xff000000 : pixels[i - 1];
+    if (x === 0) return pixels[i - width];
+    return predict(mode, pixels[i - 1], pixels[i - width], pixels[i - width - 1]);
+  };
+
+  for (let by = 0; by < blocksH; by++) {
+    for (let bx = 0; bx < blocksW; bx++) {
+      // Pick the mode with the smallest total absolute residual for this block
+      let bestMode = PREDICTOR_MODES[0];
+      let bestCost = Infinity;
+      for (const mode of PREDICTOR_MODES) {
+        let cost = 0;
+        for (let y = by * blockSize; y < Math.min(height, (by + 1) * blockSize); y++) {
+          for (let x = bx * blockSize; x < Math.min(width, (bx + 1) * blockSize); x++) {
+            const r = residual(pixels[y * width + x], predictAt(mode, x, y));
+            for (let shift = 0; shift < 32; shift += 8) {
+              const v = (r >>> shift) & 0xff;
+              cost += v < 128 ? v : 256 - v;
+            }
+          }
+        }
+        if (cost < bestCost) { bestCost = cost; bestMode = mode; }
+      }
+      modes[by * blocksW + bx] = (0xff000000 | (bestMode << 8)) >>> 0;
+      for (let y = by * blockSize; y < Math.min(height, (by + 1) * blockSize); y++) {
+        for (let x = bx * blockSize; x < Math.min(width, (bx + 1) * blockSize); x++) {
+          out[y * width + x] = residual(pixels[y * width + x], predictAt(bestMode, x, y));
+        }
+      }
+    }
+  }
+
+  bw.write(1, 1); // Transform present
+  bw.write(0, 2); // PREDICTOR_TRANSFORM
+  bw.write(sizeBits - 2, 3);
+  writeImageData(bw, modes, blocksW, false);
+  pixels.set(out);
+}
+
+// ---- Public API ----
+
+function toARGB(data: Uint8ClampedArray | Uint8Array) {
+  const pixels = new Uint32Array(data.length / 4);
+  for (let p = 0, i = 0; p < pixels.length; p++, i += 4) {
+    pixels[p] = ((data[i + 3] << 24) | (data[i] << 16) | (data[i + 1] << 8) | data[i + 2]) >>> 0;
+  }
+  return pixels;
+}
+
+function writeImageStream(bw: BitWriter, argb: Uint32Array, width: number, height: number) {
+  const palette = collectPalette(argb);
+  if (palette) {
+    const indexed = writeColorIndexing(bw, argb, width, height, palette);
+    bw.write(0, 1); // No more transforms
+    writeImageData(bw, indexed.pixels, indexed.width, true);
+    return;
+  }
+
+  bw.write(1, 1); // Transform present
+  bw.write(2, 2); // SUBTRACT_GREEN
+  subtractGreen(argb);
+  writePredictor(bw, argb, width, height);
+  bw.write(0, 1); // No more transforms
+  writeImageData(bw, argb, width, true);
+}
+
+/**
+ * Encodes RGBA pixels as a VP8L bitstream (the payload of a 'VP8L' chunk).
+ */
+export function encodeVP8L(data: Uint8ClampedArray | Uint8Array, width: number, height: number): Uint8Array {
+  const argb = toARGB(data);
+  let hasAlpha = false;
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] !== 255) { hasAlpha = true; break; }
+  }
+
+  const bw = new BitWriter();
+  bw.write(0x2f, 8); // Signature
+  bw.write(width - 1, 14);
+  bw.write(height - 1, 14);
+  bw.write(hasAlpha ? 1 : 0, 1);
+  bw.write(0, 3); // Version
+  writeImageStream(bw, argb, width, height);
+  return bw.finish();
+}
+
+/**
+ * Encodes the alpha channel as the payload of an 'ALPH' chunk
+ * (header byte + headerless VP8L stream carrying alpha in the green channel).
+ */
+export function encodeAlphaChunk(data: Uint8ClampedArray | Uint8Array, width: number, height: number): Uint8Array {
+  const argb = new Uint32Array(width * height);
+  for (let p = 0; p < argb.length; p++) {
+    argb[p] = (0xff000000 | (data[p * 4 + 3] << 8)) >>> 0;
+  }
+  const bw = new BitWriter();
+  bw.write(0x01, 8); // No pre-processing, no filtering, compression = lossless
+  writeImageStream(bw, argb, width, height);
+  return bw.finish();
+}
@@ -7,13 +7,20 @@ function uint32(num: number) {
   return new Uint8Array([num & 0xff, (num >> 8) & 0xff, (num >> 16) & 0xff, (num >> 24) & 0xff]);
 }
 
-function parseWebP(buffer: ArrayBuffer) {
-  const bytes = new Uint8Array(buffer);
-  const chunks: { type: string; data: Uint8Array }[] = [];
-  let offset = 12; // Skip RIFF header (12 bytes)
+export interface WebPChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+// Walks a sequence of RIFF chunks. By default starts after the 12-byte RIFF header;
+// pass `start` to walk nested chunks (e.g. the frame data inside an ANMF payload).
+export function parseWebP(buffer: ArrayBuffer | Uint8Array, start = 12) {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  const chunks: WebPChunk[] = [];
+  let offset = start;
 
   while (offset < bytes.length) {
-    if (offset + 4 > bytes.length) break;
+    if (offset + 8 > bytes.length) break;
     const type = String.fromCharCode(...bytes.slice(offset, offset + 4));
     const size = bytes[offset + 4] | (bytes[offset + 5] << 8) | (bytes[offset + 6] << 16) | (bytes[offset + 7] << 24);
     
@@ -28,13 +35,88 @@ function parseWebP(buffer: ArrayBuffer) {
   return chunks;
 }
 
-export async function assembleWebP(frames: { image: Blob; duration: number }[], width: number, height: number): Promise<Blob> {
+function pushChunk(parts: Uint8Array[], type: string, data: Uint8Array) {
+  parts.push(new TextEncoder().encode(type));
+  parts.push(uint32(data.length));
+  parts.push(data);
+  if (data.length % 2 !== 0) {
+    parts.push(new Uint8Array([0])); // Padding
+  }
+}
+
+function riff(parts: Uint8Array[]) {
+  let totalSize = 4; // 'WEBP'
+  parts.forEach(p => totalSize += p.length);
+
+  const riffHeader = new Uint8Array(12);
+  riffHeader.set(new TextEncoder().encode('RIFF'), 0);
+  riffHeader.set(uint32(totalSize), 4);
+  riffHeader.set(new TextEncoder().encode('WEBP'), 8);
+
+  return new Blob([riffHeader, ...parts] as BlobPart[], { type: 'image/webp' });
+}
+
+// True when a frame carries transparency: an ALPH chunk, or a VP8L bitstream with alpha_is_used set
+export function chunksHaveAlpha(chunks: WebPChunk[]) {
+  return chunks.some(c =>
+    c.type === 'ALPH' || (c.type === 'VP8L' && c.data.length > 4 && (c.data[4] & 0x10) !== 0)
+  );
+}
+
+// Wraps a single frame's bitstream chunks (ALPH/VP8/VP8L) into a standalone still WebP file
+export function wrapWebPFrame(chunks: WebPChunk[], width: number, height: number): Blob {
   const parts: Uint8Array[] = [];
+  const vp8xData = new Uint8Array(10);
+  if (chunksHaveAlpha(chunks)) {
+    vp8xData[0] = 0x10; // ALPHA flag
+  }
+  vp8xData.set(uint24(width - 1), 4);
+  vp8xData.set(uint24(height - 1), 7);
+  pushChunk(parts, 'VP8X', vp8xData);
+
+  for (const c of chunks) {
+    if (['ALPH', 'VP8 ', 'VP8L'].includes(c.type)) pushChunk(parts, c.type, c.data);
+  }
+  return riff(parts);
+}
+
+export interface WebPFrame {
+  image: Blob; // Still WebP holding the frame (or sub-rectangle) bitstream
+  duration: number; // milliseconds
+  // Placement on the canvas; defaults to a full-canvas frame at 0,0. x and y must be even.
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  blend?: boolean; // Alpha-blend over the previous canvas instead of overwriting (default: false)
+  dispose?: boolean; // Clear the rectangle to background after display (default: false)
+}
+
+export interface WebPAnimationOptions {
+  loopCount?: number; // 0 = infinite, otherwise total number of plays
+  background?: [number, number, number, number]; // RGBA canvas background hint
+}
+
+export async function assembleWebP(
+  frames: WebPFrame[],
+  width: number,
+  height: number,
+  options: WebPAnimationOptions = {}
+): Promise<Blob> {
+  const { loopCount = 0, background = [255, 255, 255, 0] } = options;
+  const parts: Uint8Array[] = [];
+
+  // Frame bitstreams, we only care about VP8, VP8L, ALPH
+  const frameChunks: WebPChunk[][] = [];
+  for (const frame of frames) {
+    const subChunks = parseWebP(await frame.image.arrayBuffer());
+    frameChunks.push(subChunks.filter(c => ['VP8 ', 'VP8L', 'ALPH'].includes(c.type)));
+  }
 
   // 1. VP8X Chunk (Extended WebP Header)
-  // Flags: ANIMATION (bit 1 = 0x02) + ALPHA (bit 4 = 0x10) -> 0x12
+  // Flags: ANIMATION (bit 1 = 0x02), ALPHA (bit 4 = 0x10) only if some frame is transparent
   const vp8xData = new Uint8Array(10);
-  vp8xData[0] = 0x12; 
+  vp8xData[0] = 0x02 | (frameChunks.some(chunksHaveAlpha) ? 0x10 : 0);
   // Canvas Size
   const wMinus1 = width - 1;
   const hMinus1 = height - 1;
@@ -47,38 +129,40 @@ export async function assembleWebP(frames: { image: Blob; duration: number }[],
 
   // 2. ANIM Chunk (Global Animation Control)
   const animData = new Uint8Array(6);
-  animData.set([255, 255, 255, 0], 0); // Background Color (BGRA) - Transparent White
-  animData.set([0, 0], 4); // Loop Count (0 = infinite)
+  const [r, g, b, a] = background;
+  animData.set([b, g, r, a], 0); // Background Color (stored as BGRA)
+  animData.set([loopCount & 0xff, (loopCount >> 8) & 0xff], 4); // Loop Count (0 = infinite)
   
   parts.push(new TextEncoder().encode('ANIM'));
   parts.push(uint32(6));
   parts.push(animData);
 
   // 3. Process Frames (ANMF Chunks)
-  for (const frame of frames) {
-    const arrayBuffer = await frame.image.arrayBuffer();
-    const subChunks = parseWebP(arrayBuffer);
-    
-    // We only care about VP8, VP8L, ALPH
-    const validChunks = subChunks.filter(c => ['VP8 ', 'VP8L', 'ALPH'].includes(c.type));
+  for (let i = 0; i < frames.length; i++) {
+    const frame = frames[i];
+    const validChunks = frameChunks[i];
     
     let payloadSize = 0;
     validChunks.forEach(c => {
       payloadSize += 8 + c.data.length + (c.data.length % 2);
     });
 
+    const x = frame.x ?? 0;
+    const y = frame.y ?? 0;
+    if (x % 2 !== 0 || y % 2 !== 0) {
+      throw new Error(`WebP frame offsets must be even (got ${x},${y})`);
+    }
+
     // ANMF Header (16 bytes)
     const anmfHeader = new Uint8Array(16);
-    // x, y = 0
-    anmfHeader.set(uint24(wMinus1), 6); // Frame Width - 1
-    anmfHeader.set(uint24(hMinus1), 9); // Frame Height - 1
+    anmfHeader.set(uint24(x / 2), 0); // Frame X / 2
+    anmfHeader.set(uint24(y / 2), 3); // Frame Y / 2
+    anmfHeader.set(uint24((frame.width ?? width) - 1), 6); // Frame Width - 1
+    anmfHeader.set(uint24((frame.height ?? height) - 1), 9); // Frame Height - 1
     anmfHeader.set(uint24(frame.duration), 12); // Duration
-    anmfHeader[15] = 0x02; // Flags: 00000010 (Blending: Do NOT Blend=0, Disposal: Background=0?)
-    // Actually, for transparency to work correctly in simple stacking:
-    // Blend Method (bit 1): 0=Blend (draw over), 1=No Blend (overwrite).
-    // Disposal Method (bit 0): 0=Do not dispose, 1=Dispose to background.
-    // We want Blend=0 (Composite over previous), Dispose=1 (Clean up? No, usually 0 for animation unless optimizing).
-    // Let's use 0x00 (Blend + No Dispose) which is standard for stacking.
+    // Flags: Blending method (bit 1): 0 = alpha-blend, 1 = do not blend (overwrite).
+    //        Disposal method (bit 0): 0 = leave in place, 1 = dispose to background.
+    anmfHeader[15] = (frame.blend ? 0 : 0x02) | (frame.dispose ? 0x01 : 0);
     
     const anmfSize = 16 + payloadSize;
 
@@ -87,23 +171,10 @@ export async function assembleWebP(frames: { image: Blob; duration: number }[],
     parts.push(anmfHeader);
 
     for (const c of validChunks) {
-      parts.push(new TextEncoder().encode(c.type));
-      parts.push(uint32(c.data.length));
-      parts.push(c.data);
-      if (c.data.length % 2 !== 0) {
-        parts.push(new Uint8Array([0])); // Padding
-      }
+      pushChunk(parts, c.type, c.data);
     }
   }
 
   // 4. Combine into RIFF
-  let totalSize = 4; // 'WEBP'
-  parts.forEach(p => totalSize += p.length);
-
-  const riffHeader = new Uint8Array(12);
-  riffHeader.set(new TextEncoder().encode('RIFF'), 0);
-  riffHeader.set(uint32(totalSize), 4);
-  riffHeader.set(new TextEncoder().encode('WEBP'), 8);
-
-  return new Blob([riffHeader, ...parts] as BlobPart[], { type: 'image/webp' });
+  return riff(parts);
 }
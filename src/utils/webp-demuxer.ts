@@ -0,0 +1,81 @@
+import { parseWebP, wrapWebPFrame } from './webp-assembler';
+
+export interface DecodedFrame {
+  imageData: ImageData;
+  delay: number; // milliseconds
+}
+
+export interface DecodedAnimation {
+  width: number;
+  height: number;
+  loopCount: number;
+  frames: DecodedFrame[];
+}
+
+function readUint24(bytes: Uint8Array, offset: number) {
+  return bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+}
+
+// Checks the RIFF header and the VP8X animation flag without reading the whole file
+export async function isAnimatedWebP(file: Blob): Promise<boolean> {
+  const bytes = new Uint8Array(await file.slice(0, 21).arrayBuffer());
+  if (bytes.length < 21) return false;
+  const tag = (o: number) => String.fromCharCode(...bytes.slice(o, o + 4));
+  return tag(0) === 'RIFF' && tag(8) === 'WEBP' && tag(12) === 'VP8X' && (bytes[20] & 0x02) !== 0;
+}
+
+/**
+ * Demuxes an animated WebP (VP8X + ANIM + ANMF) and composites every frame
+ * onto the full canvas, honoring each frame's offset, blending and disposal flags.
+ */
+export async function demuxWebP(buffer: ArrayBuffer): Promise<DecodedAnimation> {
+  const chunks = parseWebP(buffer);
+
+  const vp8x = chunks.find(c => c.type === 'VP8X');
+  if (!vp8x || (vp8x.data[0] & 0x02) === 0) {
+    throw new Error('Not an animated WebP');
+  }
+  const width = readUint24(vp8x.data, 4) + 1;
+  const height = readUint24(vp8x.data, 7) + 1;
+
+  const anim = chunks.find(c => c.type === 'ANIM');
+  const loopCount = anim ? anim.data[4] | (anim.data[5] << 8) : 0;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Could not get canvas context');
+
+  const frames: DecodedFrame[] = [];
+  for (const chunk of chunks) {
+    if (chunk.type !== 'ANMF') continue;
+    const header = chunk.data;
+
+    // ANMF header: X/2, Y/2, W-1, H-1, duration (all 24-bit), flags
+    const x = readUint24(header, 0) * 2;
+    const y = readUint24(header, 3) * 2;
+    const w = readUint24(header, 6) + 1;
+    const h = readUint24(header, 9) + 1;
+    const duration = readUint24(header, 12);
+    const flags = header[15];
+    const noBlend = (flags & 0x02) !== 0;
+    const disposeToBackground = (flags & 0x01) !== 0;
+
+    const frameChunks = parseWebP(header, 16);
+    const bitmap = await createImageBitmap(wrapWebPFrame(frameChunks, w, h));
+
+    // Blending: "do not blend" overwrites the frame rectangle, alpha-blending draws over it
+    if (noBlend) ctx.clearRect(x, y, w, h);
+    ctx.drawImage(bitmap, x, y);
+    bitmap.close();
+
+    frames.push({ imageData: ctx.getImageData(0, 0, width, height), delay: duration });
+
+    // Disposal happens after the frame has been displayed, before the next one is drawn
+    if (disposeToBackground) ctx.clearRect(x, y, w, h);
+  }
+
+  if (frames.length === 0) throw new Error('Animated WebP contains no frames');
+  return { width, height, loopCount, frames };
+}
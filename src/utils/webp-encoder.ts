@@ -0,0 +1,92 @@
+import { parseWebP, wrapWebPFrame, WebPChunk } from './webp-assembler';
+import { encodeVP8L, encodeAlphaChunk } from './vp8l-encoder';
+
+export type WebPMode = 'lossy' | 'lossless' | 'auto';
+
+export interface WebPEncodeOptions {
+  mode: WebPMode;
+  quality: number; // 0-1, lossy quality
+  minPsnr: number; // dB, auto mode only keeps lossy frames at least this close to the source
+}
+
+export interface EncodedWebPFrame {
+  image: Blob; // Still WebP with the frame bitstream
+  lossless: boolean;
+}
+
+function hasTransparency(data: Uint8ClampedArray) {
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] !== 255) return true;
+  }
+  return false;
+}
+
+export function encodeLossless(imageData: ImageData): Blob {
+  const { data, width, height } = imageData;
+  return wrapWebPFrame([{ type: 'VP8L', data: encodeVP8L(data, width, height) }], width, height);
+}
+
+export async function encodeLossy(imageData: ImageData, quality: number): Promise<Blob> {
+  const { width, height, data } = imageData;
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+  ctx.putImageData(imageData, 0, 0);
+
+  const blob = await canvas.convertToBlob({ type: 'image/webp', quality });
+  // Browsers without a WebP encoder silently fall back to PNG
+  if (blob.type !== 'image/webp') {
+    throw new Error('This browser cannot encode lossy WebP, use lossless mode instead');
+  }
+
+  // Keep ALPH only when the frame really has transparency, and add it if the encoder dropped it
+  const transparent = hasTransparency(data);
+  let chunks: WebPChunk[] = parseWebP(await blob.arrayBuffer())
+    .filter(c => c.type === 'VP8 ' || (c.type === 'ALPH' && transparent));
+  if (transparent && !chunks.some(c => c.type === 'ALPH')) {
+    chunks = [{ type: 'ALPH', data: encodeAlphaChunk(data, width, height) }, ...chunks];
+  }
+  return wrapWebPFrame(chunks, width, height);
+}
+
+// Peak signal-to-noise ratio over all RGBA channels
+async function measurePsnr(original: ImageData, encoded: Blob) {
+  const { width, height } = original;
+  const bitmap = await createImageBitmap(encoded);
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Could not get canvas context');
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  const decoded = ctx.getImageData(0, 0, width, height).data;
+
+  let sse = 0;
+  for (let i = 0; i < decoded.length; i++) {
+    const d = decoded[i] - original.data[i];
+    sse += d * d;
+  }
+  if (sse === 0) return Infinity;
+  const mse = sse / decoded.length;
+  return 10 * Math.log10((255 * 255) / mse);
+}
+
+/**
+ * Encodes one frame (or frame region) as a still WebP.
+ * In auto mode both encodings are produced; the lossy one wins only if it is smaller
+ * and its PSNR stays above the threshold.
+ */
+export async function encodeWebPFrame(imageData: ImageData, options: WebPEncodeOptions): Promise<EncodedWebPFrame> {
+  if (options.mode === 'lossless') {
+    return { image: encodeLossless(imageData), lossless: true };
+  }
+  if (options.mode === 'lossy') {
+    return { image: await encodeLossy(imageData, options.quality), lossless: false };
+  }
+
+  const lossless = encodeLossless(imageData);
+  const lossy = await encodeLossy(imageData, options.quality);
+  if (lossy.size < lossless.size && await measurePsnr(imageData, lossy) >= options.minPsnr) {
+    return { image: lossy, lossless: false };
+  }
+  return { image: lossless, lossless: true };
+}
@@ -0,0 +1,265 @@
+import UPNG from 'upng-js';
+import { assembleWebP, WebPFrame } from '../utils/webp-assembler';
+import { encodeWebPFrame, WebPEncodeOptions } from '../utils/webp-encoder';
+import { encodeGIF, GifFrame } from '../utils/gif-encoder';
+import { DitherMode } from '../utils/quantize';
+import { findChangedRegion, alignRegion } from '../utils/frame-diff';
+import { patchAPNG } from '../utils/png-chunks';
+import { quantizeFrames, ApngOptions } from '../utils/apng-palette';
+import { renderFrame, outputSize, CanvasSettings, FrameTransform, FrameAdjustments } from '../utils/render';
+import { sheetLayout, buildAtlas, SpriteAtlas } from '../utils/sprite-sheet';
+import { createZip, ZipEntry } from '../utils/zip';
+import { Overlay, loadOverlayImages, renderOverlays } from '../utils/overlays';
+import { BackgroundFill, renderBackground } from '../utils/background';
+
+export type OutputFormat = 'apng' | 'webp' | 'gif' | 'spritesheet' | 'sequence';
+
+export type SequenceImageFormat = 'png' | 'webp' | 'jpeg';
+
+export interface EncodeFrame extends FrameTransform, FrameAdjustments {
+  file: Blob;
+  delay: number;
+  index: number; // Position in the project, for overlay frame ranges
+}
+
+export interface EncodeSettings {
+  loopCount: number;
+  background: [number, number, number];
+  backgroundTransparent: boolean;
+  fill: BackgroundFill; // Composited under every frame
+  apng: ApngOptions;
+  webp: WebPEncodeOptions;
+  gifColors: number;
+  gifDither: DitherMode;
+  spriteColumns: number; // 0 = as square as possible
+  spritePadding: number;
+  sequenceFormat: SequenceImageFormat;
+  sequenceQuality: number; // 0-1, WebP / JPEG only
+  fileName: string; // Base name of the files inside a sequence ZIP
+}
+
+export interface EncodeRequest {
+  format: OutputFormat;
+  frames: EncodeFrame[];
+  canvas: CanvasSettings;
+  overlays: Overlay[];
+  settings: EncodeSettings;
+  estimate?: ApngOptions[]; // APNG only: reply with the estimated size for each option set instead of a file
+}
+
+export type EncoderMessage =
+  | { type: 'progress'; stage: string; done: number; total: number }
+  | { type: 'done'; blob: Blob; note?: string; atlas?: SpriteAtlas }
+  | { type: 'estimate'; sizes: number[] }
+  | { type: 'error'; message: string };
+
+function post(message: EncoderMessage) {
+  postMessage(message);
+}
+
+// Renders every frame into the output canvas, one bitmap at a time
+// so large projects don't keep all decoded images in memory at once
+async function renderFrames(
+  { frames, canvas: settings, overlays, settings: { fill } }: EncodeRequest,
+  stage: string,
+  onFrame: (ctx: OffscreenCanvasRenderingContext2D, index: number, width: number, height: number) => Promise<void> | void
+) {
+  const { width, height } = outputSize(settings);
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Could not get canvas context');
+
+  const overlayImages = await loadOverlayImages(overlays);
+  const fillImage = fill.mode === 'image' && fill.image ? await createImageBitmap(fill.image) : null;
+
+  // Consecutive frames of one source (Ken Burns sequences) decode it only once
+  let bitmap: ImageBitmap | null = null;
+  for (let i = 0; i < frames.length; i++) {
+    if (!bitmap || frames[i].file !== frames[i - 1].file) {
+      bitmap?.close();
+      bitmap = await createImageBitmap(frames[i].file);
+    }
+    renderFrame(ctx, bitmap, frames[i], settings);
+    renderOverlays(ctx, overlays, frames[i].index, settings, overlayImages);
+    renderBackground(ctx, fill, fillImage, settings);
+    await onFrame(ctx, i, width, height);
+    post({ type: 'progress', stage, done: i + 1, total: frames.length });
+  }
+  bitmap?.close();
+  overlayImages.forEach(image => image.close());
+  fillImage?.close();
+  return { width, height };
+}
+
+async function encodeAPNG(request: EncodeRequest) {
+  const { frames, settings } = request;
+  const buffers: ArrayBuffer[] = [];
+  const { width, height } = await renderFrames(request, 'Rendering', (ctx, _i, w, h) => {
+    buffers.push(ctx.getImageData(0, 0, w, h).data.buffer);
+  });
+
+  quantizeFrames(buffers, width, height, settings.apng, (i) => {
+    post({ type: 'progress', stage: 'Quantizing', done: i + 1, total: frames.length });
+  });
+
+  post({ type: 'progress', stage: 'Compressing', done: frames.length, total: frames.length });
+  // upng-js has no num_plays / background parameters, so patch them in afterwards
+  const apngBuffer = patchAPNG(UPNG.encode(buffers, width, height, 0, frames.map(f => f.delay)), {
+    loopCount: settings.loopCount,
+    background: settings.backgroundTransparent ? undefined : settings.background
+  });
+  const note = settings.apng.colors === 0 ? 'lossless' : `${settings.apng.colors} colours`;
+  return { blob: new Blob([apngBuffer], { type: 'image/png' }), note };
+}
+
+// Frames encoded per option set when estimating, the total is extrapolated from them
+const ESTIMATE_SAMPLE = 6;
+
+async function estimateAPNG(request: EncodeRequest, options: ApngOptions[]) {
+  const sample = request.frames.slice(0, ESTIMATE_SAMPLE);
+  const buffers: ArrayBuffer[] = [];
+  const { width, height } = await renderFrames({ ...request, frames: sample }, 'Rendering', (ctx, _i, w, h) => {
+    buffers.push(ctx.getImageData(0, 0, w, h).data.buffer);
+  });
+
+  return options.map((option, i) => {
+    const copies = buffers.map(b => b.slice(0));
+    quantizeFrames(copies, width, height, option);
+    const size = UPNG.encode(copies, width, height, 0, sample.map(f => f.delay)).byteLength;
+    post({ type: 'progress', stage: 'Estimating', done: i + 1, total: options.length });
+    return Math.round(size * request.frames.length / sample.length);
+  });
+}
+
+async function encodeAnimatedWebP(request: EncodeRequest) {
+  const { frames, settings } = request;
+  const webpFrames: WebPFrame[] = [];
+  let prevData: Uint8ClampedArray | null = null;
+  let losslessCount = 0;
+
+  const { width, height } = await renderFrames(request, 'Encoding', async (ctx, i, w, h) => {
+    const imageData = ctx.getImageData(0, 0, w, h);
+
+    // Delta frame: only encode the bounding box that changed since the previous frame.
+    // Frames overwrite (no blend) so pixels turning transparent are carried over too.
+    const changed = prevData
+      ? findChangedRegion(prevData, imageData.data, w, h) ?? { x: 0, y: 0, width: 1, height: 1 }
+      : { x: 0, y: 0, width: w, height: h };
+    const region = alignRegion(changed);
+    prevData = imageData.data;
+
+    const regionData = ctx.getImageData(region.x, region.y, region.width, region.height);
+    const encoded = await encodeWebPFrame(regionData, settings.webp);
+    if (encoded.lossless) losslessCount++;
+    webpFrames.push({ image: encoded.image, duration: frames[i].delay, ...region });
+  });
+
+  const blob = await assembleWebP(webpFrames, width, height, {
+    loopCount: settings.loopCount,
+    background: [...settings.background, settings.backgroundTransparent ? 0 : 255]
+  });
+  const note = settings.webp.mode === 'auto'
+    ? `${losslessCount} lossless / ${frames.length - losslessCount} lossy frames`
+    : undefined;
+  return { blob, note };
+}
+
+async function encodeAnimatedGIF(request: EncodeRequest) {
+  const { frames, settings } = request;
+  const gifFrames: GifFrame[] = [];
+  const { width, height } = await renderFrames(request, 'Rendering', (ctx, i, w, h) => {
+    gifFrames.push({ data: ctx.getImageData(0, 0, w, h).data, delay: frames[i].delay });
+  });
+
+  const blob = encodeGIF(gifFrames, width, height, {
+    colors: settings.gifColors,
+    dither: settings.gifDither,
+    loop: settings.loopCount,
+    onFrame: (i) => post({ type: 'progress', stage: 'Quantizing', done: i + 1, total: frames.length })
+  });
+  return { blob };
+}
+
+// Numbered still images in a ZIP, plus a JSON manifest and an ffmpeg concat list with the delays
+async function encodeImageSequence(request: EncodeRequest) {
+  const { frames, settings } = request;
+  const extension = settings.sequenceFormat === 'jpeg' ? 'jpg' : settings.sequenceFormat;
+  const entries: ZipEntry[] = [];
+  const files: { file: string; delay: number }[] = [];
+  // JPEG has no alpha, so frames are flattened onto the fill colour, or the background hint colour without one
+  const flat = settings.sequenceFormat === 'jpeg' ? new OffscreenCanvas(1, 1) : null;
+  const flatColor = settings.fill.mode === 'color' ? settings.fill.color : `rgb(${settings.background.join(',')})`;
+
+  const { width, height } = await renderFrames(request, 'Rendering', async (ctx, i, w, h) => {
+    let source = ctx.canvas;
+    if (flat) {
+      flat.width = w;
+      flat.height = h;
+      const flatCtx = flat.getContext('2d');
+      if (!flatCtx) throw new Error('Could not get canvas context');
+      flatCtx.fillStyle = flatColor;
+      flatCtx.fillRect(0, 0, w, h);
+      flatCtx.drawImage(ctx.canvas, 0, 0);
+      source = flat;
+    }
+    const blob = await source.convertToBlob({
+      type: `image/${settings.sequenceFormat}`,
+      quality: settings.sequenceFormat === 'png' ? undefined : settings.sequenceQuality
+    });
+    const file = `${settings.fileName}_${String(i + 1).padStart(4, '0')}.${extension}`;
+    entries.push({ name: file, data: new Uint8Array(await blob.arrayBuffer()) });
+    files.push({ file, delay: frames[i].delay });
+  });
+
+  const manifest = { name: settings.fileName, width, height, loopCount: settings.loopCount, frames: files };
+  // ffmpeg -f concat -i <name>.ffconcat; the last file is repeated so its duration is honoured
+  const concat = ['ffconcat version 1.0', ...files.flatMap(f => [`file '${f.file}'`, `duration ${f.delay / 1000}`])];
+  if (files.length > 0) concat.push(`file '${files[files.length - 1].file}'`);
+
+  const encoder = new TextEncoder();
+  entries.push({ name: `${settings.fileName}.json`, data: encoder.encode(JSON.stringify(manifest, null, 2)) });
+  entries.push({ name: `${settings.fileName}.ffconcat`, data: encoder.encode(concat.join('\n') + '\n') });
+  return { blob: createZip(entries), note: `${frames.length} ${extension.toUpperCase()} frames` };
+}
+
+// Largest canvas side browsers reliably allocate
+const MAX_SHEET_SIZE = 16384;
+
+async function encodeSpriteSheet(request: EncodeRequest) {
+  const { frames, settings } = request;
+  const out = outputSize(request.canvas);
+  const layout = sheetLayout(frames.length, out.width, out.height, settings.spriteColumns, settings.spritePadding);
+  if (layout.width > MAX_SHEET_SIZE || layout.height > MAX_SHEET_SIZE) {
+    throw new Error(`Sprite sheet would be ${layout.width} × ${layout.height} px (max ${MAX_SHEET_SIZE}), reduce the output size or change the columns`);
+  }
+
+  const sheet = new OffscreenCanvas(layout.width, layout.height);
+  const sheetCtx = sheet.getContext('2d');
+  if (!sheetCtx) throw new Error('Could not get canvas context');
+  await renderFrames(request, 'Rendering', (ctx, i) => {
+    sheetCtx.drawImage(ctx.canvas, layout.cells[i].x, layout.cells[i].y);
+  });
+
+  post({ type: 'progress', stage: 'Compressing', done: frames.length, total: frames.length });
+  const blob = await sheet.convertToBlob({ type: 'image/png' });
+  const atlas = buildAtlas(layout.cells, out.width, out.height, frames.map(f => f.delay), layout.width, layout.height);
+  return { blob, atlas, note: `${layout.width} × ${layout.height} px sheet` };
+}
+
+onmessage = async (e: MessageEvent<EncodeRequest>) => {
+  try {
+    const request = e.data;
+    if (request.estimate) {
+      post({ type: 'estimate', sizes: await estimateAPNG(request, request.estimate) });
+      return;
+    }
+    const result = request.format === 'apng' ? await encodeAPNG(request)
+      : request.format === 'webp' ? await encodeAnimatedWebP(request)
+      : request.format === 'spritesheet' ? await encodeSpriteSheet(request)
+      : request.format === 'sequence' ? await encodeImageSequence(request)
+      : await encodeAnimatedGIF(request);
+    post({ type: 'done', ...result });
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};